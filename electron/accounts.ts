@@ -0,0 +1,116 @@
+/**
+ * Accounts - Named accounts (profiles) that session roots belong to
+ *
+ * Someone with a personal and a work Claude login runs two config dirs; each
+ * root is assigned to an account so their usage can be told apart. Every
+ * provider has a default account whose id is the provider name: it holds the
+ * roots nobody assigned, so weekly caps and budgets saved per provider before
+ * accounts existed keep applying to it. Accounts and root assignments are
+ * stored in the accounts setting as JSON.
+ */
+
+import type { Provider } from './parser'
+
+export const ACCOUNTS_SETTING = 'accounts'
+
+// 'subscription' usage is paid for by a flat plan: its costs are API-equivalent
+// value rather than spend, so only budgets on the account itself count them
+export type PricingMode = 'api' | 'subscription'
+
+export interface Account {
+  id: string
+  provider: Provider
+  name: string
+  pricingMode: PricingMode
+}
+
+export interface AccountConfig {
+  // Accounts added in Settings, and default accounts that were renamed or re-priced
+  accounts: Account[]
+  // Root path -> account id; roots not listed belong to their provider's default account
+  rootAccounts: Record<string, string>
+}
+
+const PROVIDERS: Provider[] = ['claude', 'codex', 'gemini']
+
+const PROVIDER_NAMES: Record<Provider, string> = {
+  claude: 'Claude',
+  codex: 'Codex',
+  gemini: 'Gemini',
+}
+
+function isProvider(value: unknown): value is Provider {
+  return PROVIDERS.includes(value as Provider)
+}
+
+export function defaultAccount(provider: Provider): Account {
+  return { id: provider, provider, name: PROVIDER_NAMES[provider], pricingMode: 'api' }
+}
+
+/**
+ * Read the accounts setting; anything unreadable counts as default accounts only
+ */
+export function parseAccountConfig(value: string): AccountConfig {
+  const config: AccountConfig = { accounts: [], rootAccounts: {} }
+  try {
+    const parsed = value ? JSON.parse(value) : {}
+    if (Array.isArray(parsed.accounts)) {
+      for (const entry of parsed.accounts) {
+        if (!entry || typeof entry.id !== 'string' || !entry.id || !isProvider(entry.provider)) continue
+        if (config.accounts.some((account) => account.id === entry.id)) continue
+        // A default account stays with its provider
+        if (isProvider(entry.id) && entry.id !== entry.provider) continue
+        config.accounts.push({
+          id: entry.id,
+          provider: entry.provider,
+          name: typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : entry.id,
+          pricingMode: entry.pricingMode === 'subscription' ? 'subscription' : 'api',
+        })
+      }
+    }
+    if (parsed.rootAccounts && typeof parsed.rootAccounts === 'object') {
+      for (const [root, id] of Object.entries(parsed.rootAccounts)) {
+        if (typeof id === 'string' && (isProvider(id) || config.accounts.some((account) => account.id === id))) {
+          config.rootAccounts[root] = id
+        }
+      }
+    }
+  } catch {
+    // Keep the default accounts only
+  }
+  return config
+}
+
+/**
+ * Give accounts added in Settings (empty id) an id derived from their name
+ */
+export function assignAccountIds(config: AccountConfig): AccountConfig {
+  const used = new Set<string>([...PROVIDERS, ...config.accounts.map((account) => account.id).filter(Boolean)])
+  const accounts = config.accounts.map((account) => {
+    if (account.id) return account
+    const slug = account.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'account'
+    let id = `${account.provider}-${slug}`
+    for (let n = 2; used.has(id); n++) id = `${account.provider}-${slug}-${n}`
+    used.add(id)
+    return { ...account, id }
+  })
+  return { ...config, accounts }
+}
+
+/**
+ * Every account, each provider's default first
+ */
+export function resolveAccounts(config: AccountConfig): Account[] {
+  return PROVIDERS.flatMap((provider) => [
+    config.accounts.find((account) => account.id === provider) || defaultAccount(provider),
+    ...config.accounts.filter((account) => account.provider === provider && account.id !== provider),
+  ])
+}
+
+/**
+ * Account the sessions under a root belong to
+ */
+export function accountForRoot(config: AccountConfig, provider: Provider, rootPath: string | null): string {
+  const id = rootPath ? config.rootAccounts[rootPath] : undefined
+  return id && config.accounts.some((account) => account.id === id && account.provider === provider) ? id : provider
+}
@@ -0,0 +1,139 @@
+/**
+ * Billing Blocks - Rebuilds Claude's 5-hour usage blocks from event timestamps
+ *
+ * A block starts with the first message after the previous block has expired
+ * and lasts exactly BLOCK_DURATION_MS, regardless of activity inside it.
+ */
+
+export const BLOCK_DURATION_MS = 5 * 60 * 60 * 1000
+
+export interface BlockEvent {
+  timestamp: string
+  model: string | null
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  costUsd: number
+}
+
+export interface BurnRate {
+  tokensPerMinute: number
+  costPerHour: number
+}
+
+export interface BillingBlock {
+  startTime: string
+  endTime: string
+  lastActivity: string
+  isActive: boolean
+  turns: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  // Input + output, matching how tokens are counted elsewhere in the app
+  totalTokens: number
+  costUsd: number
+  models: string[]
+  // Only for the active block
+  burnRate: BurnRate | null
+  remainingMs: number
+  projected: { totalTokens: number; costUsd: number } | null
+}
+
+function newBlock(start: number): BillingBlock {
+  return {
+    startTime: new Date(start).toISOString(),
+    endTime: new Date(start + BLOCK_DURATION_MS).toISOString(),
+    lastActivity: new Date(start).toISOString(),
+    isActive: false,
+    turns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    models: [],
+    burnRate: null,
+    remainingMs: 0,
+    projected: null,
+  }
+}
+
+/**
+ * Group events (any order) into consecutive 5-hour blocks, oldest first
+ */
+export function buildBillingBlocks(events: BlockEvent[], now: number = Date.now()): BillingBlock[] {
+  const sorted = events
+    .map((event) => ({ event, time: new Date(event.timestamp).getTime() }))
+    .filter(({ time }) => !isNaN(time))
+    .sort((a, b) => a.time - b.time)
+
+  const blocks: BillingBlock[] = []
+  let current: BillingBlock | null = null
+  let currentEnd = 0
+
+  for (const { event, time } of sorted) {
+    if (!current || time >= currentEnd) {
+      current = newBlock(time)
+      currentEnd = time + BLOCK_DURATION_MS
+      blocks.push(current)
+    }
+
+    current.turns++
+    current.inputTokens += event.inputTokens
+    current.outputTokens += event.outputTokens
+    current.cacheReadTokens += event.cacheReadTokens
+    current.cacheCreationTokens += event.cacheCreationTokens
+    current.totalTokens += event.inputTokens + event.outputTokens
+    current.costUsd += event.costUsd
+    current.lastActivity = event.timestamp
+    if (event.model && !current.models.includes(event.model)) {
+      current.models.push(event.model)
+    }
+  }
+
+  const last = blocks[blocks.length - 1]
+  if (last && new Date(last.endTime).getTime() > now) {
+    applyActiveMetrics(last, now)
+  }
+
+  return blocks
+}
+
+/**
+ * Burn rate, time remaining and end-of-block projection for the running block
+ */
+function applyActiveMetrics(block: BillingBlock, now: number): void {
+  const start = new Date(block.startTime).getTime()
+  const end = new Date(block.endTime).getTime()
+  const elapsedMs = Math.max(0, now - start)
+
+  block.isActive = true
+  block.remainingMs = Math.max(0, end - now)
+
+  // Under a minute of history gives a meaningless rate
+  if (elapsedMs < 60 * 1000) return
+
+  const elapsedMinutes = elapsedMs / 60000
+  block.burnRate = {
+    tokensPerMinute: block.totalTokens / elapsedMinutes,
+    costPerHour: (block.costUsd / elapsedMinutes) * 60,
+  }
+
+  const remainingMinutes = block.remainingMs / 60000
+  block.projected = {
+    totalTokens: Math.round(block.totalTokens + block.burnRate.tokensPerMinute * remainingMinutes),
+    costUsd: block.costUsd + (block.burnRate.costPerHour / 60) * remainingMinutes,
+  }
+}
+
+/**
+ * The block that is still running at `now`, if any
+ */
+export function getActiveBlock(blocks: BillingBlock[]): BillingBlock | null {
+  const last = blocks[blocks.length - 1]
+  return last && last.isActive ? last : null
+}
@@ -0,0 +1,123 @@
+"use strict";
+/**
+ * Budgets - USD spend limits per period, scoped globally, per provider, per project
+ * or per account
+ *
+ * After every sync the BudgetEngine compares spend against each budget and
+ * fires a notification the first time a threshold is crossed in a period.
+ * Fired alerts are recorded so restarts and re-syncs don't notify again.
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.BudgetEngine = exports.BUDGET_THRESHOLDS = void 0;
+exports.getBudgetPeriod = getBudgetPeriod;
+exports.budgetAppliesToAccount = budgetAppliesToAccount;
+exports.evaluateBudgets = evaluateBudgets;
+const database_1 = require("./database");
+const weekly_1 = require("./weekly");
+const accounts_1 = require("./accounts");
+// Percent of a budget at which an alert fires
+exports.BUDGET_THRESHOLDS = [50, 80, 100];
+/**
+ * Bounds of the budget period containing `now`. Weekly budgets follow the
+ * week reset configured for weekly limits so both views agree.
+ */
+function getBudgetPeriod(period, db, now = Date.now()) {
+    const date = new Date(now);
+    switch (period) {
+        case 'daily': {
+            const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+            const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+            return { start: start.getTime(), end: end.getTime() };
+        }
+        case 'weekly':
+            return (0, weekly_1.getWeekWindow)((0, weekly_1.parseWeeklyConfig)(db.getSetting(weekly_1.WEEKLY_LIMITS_SETTING, '{}')), now);
+        case 'monthly': {
+            const start = new Date(date.getFullYear(), date.getMonth(), 1);
+            const end = new Date(date.getFullYear(), date.getMonth() + 1, 1);
+            return { start: start.getTime(), end: end.getTime() };
+        }
+    }
+}
+/**
+ * Whether a budget limits an account's usage, directly or through its provider
+ */
+function budgetAppliesToAccount(budget, account) {
+    if (budget.scope === 'account')
+        return budget.scopeValue === account.id;
+    if (budget.scope === 'provider')
+        return budget.scopeValue === account.provider;
+    return true;
+}
+/**
+ * Current spend for every configured budget. Usage of subscription accounts
+ * isn't spend, so only budgets on the account itself count it.
+ */
+function evaluateBudgets(db, now = Date.now()) {
+    const subscriptionAccounts = (0, accounts_1.resolveAccounts)((0, accounts_1.parseAccountConfig)(db.getSetting(accounts_1.ACCOUNTS_SETTING)))
+        .filter((account) => account.pricingMode === 'subscription')
+        .map((account) => account.id);
+    return db.getBudgets().map((budget) => {
+        const { start, end } = getBudgetPeriod(budget.period, db, now);
+        const periodStart = new Date(start).toISOString();
+        const periodEnd = new Date(end).toISOString();
+        const spentUsd = db.getSpend(periodStart, periodEnd, budget.scope, budget.scopeValue, subscriptionAccounts);
+        return {
+            budget,
+            periodStart,
+            periodEnd,
+            spentUsd,
+            percentUsed: budget.amountUsd > 0 ? (spentUsd / budget.amountUsd) * 100 : 0,
+        };
+    });
+}
+function capitalize(value) {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+}
+function describeBudget(budget, accounts) {
+    const period = capitalize(budget.period);
+    if (budget.scope === 'global')
+        return `${period} budget`;
+    if (budget.scope === 'provider')
+        return `${period} ${capitalize(budget.scopeValue || '')} budget`;
+    if (budget.scope === 'account') {
+        const account = accounts.find((entry) => entry.id === budget.scopeValue);
+        return `${period} budget for ${account?.name || budget.scopeValue}`;
+    }
+    return `${period} budget for ${budget.scopeValue}`;
+}
+class BudgetEngine {
+    constructor(notify) {
+        this.notify = notify;
+    }
+    /**
+     * Fire alerts for thresholds crossed since the last check
+     */
+    async check() {
+        const db = await (0, database_1.getDatabase)();
+        const accounts = (0, accounts_1.resolveAccounts)((0, accounts_1.parseAccountConfig)(db.getSetting(accounts_1.ACCOUNTS_SETTING)));
+        const fired = [];
+        for (const status of evaluateBudgets(db)) {
+            // Only the highest newly crossed threshold notifies; lower ones are recorded silently
+            const crossed = exports.BUDGET_THRESHOLDS.filter((threshold) => status.percentUsed >= threshold &&
+                !db.hasBudgetAlert(status.budget.id, status.periodStart, threshold));
+            if (crossed.length === 0)
+                continue;
+            const firedAt = new Date().toISOString();
+            for (const threshold of crossed) {
+                const alert = {
+                    budgetId: status.budget.id,
+                    periodStart: status.periodStart,
+                    threshold,
+                    spentUsd: status.spentUsd,
+                    firedAt,
+                };
+                db.recordBudgetAlert(alert);
+                fired.push(alert);
+            }
+            const top = crossed[crossed.length - 1];
+            this.notify(`${describeBudget(status.budget, accounts)}: ${top}% reached`, `$${status.spentUsd.toFixed(2)} of $${status.budget.amountUsd.toFixed(2)} spent`);
+        }
+        return fired;
+    }
+}
+exports.BudgetEngine = BudgetEngine;
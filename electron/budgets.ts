@@ -0,0 +1,157 @@
+/**
+ * Budgets - USD spend limits per period, scoped globally, per provider, per project
+ * or per account
+ *
+ * After every sync the BudgetEngine compares spend against each budget and
+ * fires a notification the first time a threshold is crossed in a period.
+ * Fired alerts are recorded so restarts and re-syncs don't notify again.
+ */
+
+import { getDatabase, type DatabaseManager } from './database'
+import { WEEKLY_LIMITS_SETTING, getWeekWindow, parseWeeklyConfig } from './weekly'
+import { ACCOUNTS_SETTING, parseAccountConfig, resolveAccounts, type Account } from './accounts'
+
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly'
+export type BudgetScope = 'global' | 'provider' | 'project' | 'account'
+
+// Percent of a budget at which an alert fires
+export const BUDGET_THRESHOLDS = [50, 80, 100]
+
+export interface Budget {
+  id: number
+  period: BudgetPeriod
+  scope: BudgetScope
+  // Provider name, project key (as in UsageData.byProject) or account id; null for global
+  scopeValue: string | null
+  amountUsd: number
+}
+
+export interface BudgetStatus {
+  budget: Budget
+  periodStart: string
+  periodEnd: string
+  spentUsd: number
+  percentUsed: number
+}
+
+export interface BudgetAlert {
+  budgetId: number
+  periodStart: string
+  threshold: number
+  spentUsd: number
+  firedAt: string
+}
+
+/**
+ * Bounds of the budget period containing `now`. Weekly budgets follow the
+ * week reset configured for weekly limits so both views agree.
+ */
+export function getBudgetPeriod(period: BudgetPeriod, db: DatabaseManager, now: number = Date.now()): { start: number; end: number } {
+  const date = new Date(now)
+  switch (period) {
+    case 'daily': {
+      const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+      const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+      return { start: start.getTime(), end: end.getTime() }
+    }
+    case 'weekly':
+      return getWeekWindow(parseWeeklyConfig(db.getSetting(WEEKLY_LIMITS_SETTING, '{}')), now)
+    case 'monthly': {
+      const start = new Date(date.getFullYear(), date.getMonth(), 1)
+      const end = new Date(date.getFullYear(), date.getMonth() + 1, 1)
+      return { start: start.getTime(), end: end.getTime() }
+    }
+  }
+}
+
+/**
+ * Whether a budget limits an account's usage, directly or through its provider
+ */
+export function budgetAppliesToAccount(budget: Budget, account: Account): boolean {
+  if (budget.scope === 'account') return budget.scopeValue === account.id
+  if (budget.scope === 'provider') return budget.scopeValue === account.provider
+  return true
+}
+
+/**
+ * Current spend for every configured budget. Usage of subscription accounts
+ * isn't spend, so only budgets on the account itself count it.
+ */
+export function evaluateBudgets(db: DatabaseManager, now: number = Date.now()): BudgetStatus[] {
+  const subscriptionAccounts = resolveAccounts(parseAccountConfig(db.getSetting(ACCOUNTS_SETTING)))
+    .filter((account) => account.pricingMode === 'subscription')
+    .map((account) => account.id)
+
+  return db.getBudgets().map((budget) => {
+    const { start, end } = getBudgetPeriod(budget.period, db, now)
+    const periodStart = new Date(start).toISOString()
+    const periodEnd = new Date(end).toISOString()
+    const spentUsd = db.getSpend(periodStart, periodEnd, budget.scope, budget.scopeValue, subscriptionAccounts)
+    return {
+      budget,
+      periodStart,
+      periodEnd,
+      spentUsd,
+      percentUsed: budget.amountUsd > 0 ? (spentUsd / budget.amountUsd) * 100 : 0,
+    }
+  })
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+function describeBudget(budget: Budget, accounts: Account[]): string {
+  const period = capitalize(budget.period)
+  if (budget.scope === 'global') return `${period} budget`
+  if (budget.scope === 'provider') return `${period} ${capitalize(budget.scopeValue || '')} budget`
+  if (budget.scope === 'account') {
+    const account = accounts.find((entry) => entry.id === budget.scopeValue)
+    return `${period} budget for ${account?.name || budget.scopeValue}`
+  }
+  return `${period} budget for ${budget.scopeValue}`
+}
+
+export class BudgetEngine {
+  constructor(private notify: (title: string, body: string) => void) {}
+
+  /**
+   * Fire alerts for thresholds crossed since the last check
+   */
+  async check(): Promise<BudgetAlert[]> {
+    const db = await getDatabase()
+    const accounts = resolveAccounts(parseAccountConfig(db.getSetting(ACCOUNTS_SETTING)))
+    const fired: BudgetAlert[] = []
+
+    for (const status of evaluateBudgets(db)) {
+      // Only the highest newly crossed threshold notifies; lower ones are recorded silently
+      const crossed = BUDGET_THRESHOLDS.filter(
+        (threshold) =>
+          status.percentUsed >= threshold &&
+          !db.hasBudgetAlert(status.budget.id, status.periodStart, threshold)
+      )
+      if (crossed.length === 0) continue
+
+      const firedAt = new Date().toISOString()
+      for (const threshold of crossed) {
+        const alert: BudgetAlert = {
+          budgetId: status.budget.id,
+          periodStart: status.periodStart,
+          threshold,
+          spentUsd: status.spentUsd,
+          firedAt,
+        }
+        db.recordBudgetAlert(alert)
+        fired.push(alert)
+      }
+
+      const top = crossed[crossed.length - 1]
+      this.notify(
+        `${describeBudget(status.budget, accounts)}: ${top}% reached`,
+        `$${status.spentUsd.toFixed(2)} of $${status.budget.amountUsd.toFixed(2)} spent`
+      )
+    }
+
+    return fired
+  }
+}
@@ -1,15 +1,18 @@
 /**
  * SQLite Database Manager for LLM Usage Tracker
- * Uses sql.js (pure JavaScript SQLite) for persistent caching with incremental updates
+ * Uses better-sqlite3 (WAL mode) for persistent caching with incremental updates
  */
 
 import * as path from 'path'
 import * as os from 'os'
 import * as fs from 'fs'
-import type { SessionStats, Provider } from './parser'
-
-// Import sql.js dynamically
-type SqlJsDatabase = any
+import Database from 'better-sqlite3'
+import type { SessionStats, SearchableMessage, Provider, ModelUsage, ModelStats, RateLimitSnapshot, ParseCheckpoint, UsageEvent } from './parser'
+import type { BlockEvent } from './blocks'
+import type { Budget, BudgetAlert, BudgetScope } from './budgets'
+import type { TimeseriesRow } from './timeseries'
+import type { SyncRun } from './syncJob'
+import { runMigrations } from './migrations'
 
 // Database location
 const DB_DIR = path.join(os.homedir(), '.llm-usage-tracker')
@@ -20,10 +23,123 @@ export interface FileRecord {
   provider: Provider
   mtime: number
   size: number
+  // Where the last parse stopped, for files that can be parsed incrementally
+  checkpoint: ParseCheckpoint | null
+}
+
+export interface EventBucketRow {
+  bucket: string
+  provider: Provider
+  sessions: number
+  inputTokens: number
+  outputTokens: number
+  reasoningOutputTokens: number
+  costUsd: number
+}
+
+export type SessionSortKey =
+  | 'lastMessage'
+  | 'firstMessage'
+  | 'provider'
+  | 'project'
+  | 'model'
+  | 'messages'
+  | 'tokens'
+  | 'cost'
+  | 'duration'
+
+export interface SessionQuery {
+  provider?: Provider
+  // Account id (see accounts.ts)
+  account?: string
+  // Project key as in UsageData.byProject
+  project?: string
+  model?: string
+  // ISO timestamps; sessions overlapping [start, end)
+  start?: string
+  end?: string
+  minCost?: number
+  // Substring of the session id or project
+  search?: string
+  sortBy: SessionSortKey
+  sortOrder: 'asc' | 'desc'
+  offset: number
+  limit: number
+}
+
+export interface SessionPage {
+  sessions: SessionStats[]
+  total: number
+  offset: number
+  limit: number
+}
+
+export interface MessageSearchQuery {
+  // Free text; every word must appear, the last one may be a prefix
+  text: string
+  provider?: Provider
+  // Account id (see accounts.ts)
+  account?: string
+  // Project key as in UsageData.byProject
+  project?: string
+  // ISO timestamps; messages inside [start, end)
+  start?: string
+  end?: string
+  offset: number
+  limit: number
+}
+
+export interface MessageSearchResult {
+  id: number
+  session: SessionStats
+  role: 'user' | 'assistant'
+  timestamp: string | null
+  // Matched terms are wrapped in SNIPPET_MATCH_START / SNIPPET_MATCH_END
+  snippet: string
+}
+
+export interface MessageSearchPage {
+  results: MessageSearchResult[]
+  total: number
+  offset: number
+  limit: number
+}
+
+// Sync runs kept in the history
+const SYNC_HISTORY_LIMIT = 50
+
+// 'false' purges sessions once their source file is deleted instead of archiving them
+export const KEEP_DELETED_SESSIONS_SETTING = 'keepDeletedSessions'
+
+export const SNIPPET_MATCH_START = '\u0002'
+export const SNIPPET_MATCH_END = '\u0003'
+
+/**
+ * Turn free text into an FTS4 MATCH expression. Words are lowercased so
+ * they can't be read as AND/OR/NOT operators; punctuation is dropped.
+ */
+function toMatchExpression(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu)
+  if (!words) return null
+  return words.map((word, idx) => (idx === words.length - 1 ? `${word}*` : word)).join(' ')
+}
+
+const SESSION_SORT_COLUMNS: Record<SessionSortKey, string> = {
+  lastMessage: 'last_message',
+  firstMessage: 'first_message',
+  provider: 'provider',
+  project: "COALESCE(project, provider || '-sessions')",
+  model: 'model',
+  messages: 'messages',
+  tokens: '(input_tokens + output_tokens)',
+  cost: 'cost_usd',
+  duration: 'duration',
 }
 
 export class DatabaseManager {
-  private db: SqlJsDatabase | null = null
+  private db: Database.Database | null = null
+  // Prepared statements keyed by their SQL, compiled once per connection
+  private statements = new Map<string, Database.Statement>()
   private initialized = false
   private initPromise: Promise<void> | null = null
 
@@ -33,7 +149,7 @@ export class DatabaseManager {
   }
 
   /**
-   * Initialize sql.js and load/create database
+   * Open or create the database file
    */
   private async init(): Promise<void> {
     if (this.initialized) return
@@ -44,34 +160,8 @@ export class DatabaseManager {
         fs.mkdirSync(DB_DIR, { recursive: true })
       }
 
-      // Dynamic import of sql.js with WASM configuration
-      const initSqlJs = require('sql.js')
-      
-      // Get the WASM file path
-      const wasmPath = path.join(
-        path.dirname(require.resolve('sql.js')),
-        'sql-wasm.wasm'
-      )
-
-      // Initialize sql.js with WASM file location
-      const SQL = await initSqlJs({
-        locateFile: (file: string) => {
-          if (file === 'sql-wasm.wasm') {
-            return wasmPath
-          }
-          return file
-        }
-      })
-
-      // Load existing database or create new one
-      if (fs.existsSync(DB_PATH)) {
-        const fileBuffer = fs.readFileSync(DB_PATH)
-        this.db = new SQL.Database(fileBuffer)
-      } else {
-        this.db = new SQL.Database()
-      }
-
-      this.initSchema()
+      this.db = this.openDatabase()
+      runMigrations(this.db, DB_PATH)
       this.initialized = true
       console.log('[DB] Database initialized at', DB_PATH)
     } catch (e) {
@@ -81,81 +171,66 @@ export class DatabaseManager {
   }
 
   /**
-   * Ensure database is ready before operations
+   * Open the cache file in WAL mode. Files written by the earlier sql.js
+   * build are plain SQLite in rollback-journal mode and are imported in
+   * place once they pass an integrity check; one that fails is moved aside
+   * and the cache is rebuilt from the session files.
    */
-  async ensureReady(): Promise<void> {
-    if (this.initPromise) {
-      await this.initPromise
+  private openDatabase(): Database.Database {
+    const existing = fs.existsSync(DB_PATH)
+    let db = new Database(DB_PATH)
+
+    try {
+      if (existing && db.pragma('journal_mode', { simple: true }) !== 'wal') {
+        const check = db.pragma('quick_check', { simple: true })
+        if (check !== 'ok') {
+          throw new Error(`Integrity check failed: ${check}`)
+        }
+        console.log('[DB] Importing sql.js database', DB_PATH)
+      }
+    } catch (e) {
+      console.error('[DB] Existing database is unreadable, starting a new one:', e)
+      db.close()
+      // Journal files go with it; SQLite would apply them to the new database
+      const suffix = `.corrupt-${Date.now()}`
+      for (const file of [DB_PATH, `${DB_PATH}-wal`, `${DB_PATH}-shm`, `${DB_PATH}-journal`]) {
+        if (fs.existsSync(file)) fs.renameSync(file, file + suffix)
+      }
+      db = new Database(DB_PATH)
     }
+
+    db.pragma('journal_mode = WAL')
+    // WAL keeps the file consistent on crashes; losing the last commit only means re-parsing it
+    db.pragma('synchronous = NORMAL')
+    return db
   }
 
   /**
-   * Initialize database schema
+   * Prepared statement for a query, reused across calls
    */
-  private initSchema(): void {
-    if (!this.db) return
-
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS files (
-        path TEXT PRIMARY KEY,
-        provider TEXT NOT NULL,
-        mtime INTEGER NOT NULL,
-        size INTEGER NOT NULL,
-        last_parsed INTEGER NOT NULL
-      )
-    `)
-
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS sessions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        path TEXT NOT NULL UNIQUE,
-        provider TEXT NOT NULL,
-        session_id TEXT NOT NULL,
-        project TEXT,
-        messages INTEGER DEFAULT 0,
-        user_messages INTEGER DEFAULT 0,
-        assistant_messages INTEGER DEFAULT 0,
-        tool_uses INTEGER DEFAULT 0,
-        input_tokens INTEGER DEFAULT 0,
-        output_tokens INTEGER DEFAULT 0,
-        cache_read_tokens INTEGER DEFAULT 0,
-        cache_creation_tokens INTEGER DEFAULT 0,
-        cost_usd REAL DEFAULT 0,
-        model TEXT,
-        first_message TEXT,
-        last_message TEXT,
-        duration INTEGER DEFAULT 0
-      )
-    `)
-
-    // Create indexes
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_provider ON sessions(provider)`)
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_project ON sessions(project)`)
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_last_message ON sessions(last_message)`)
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_files_provider ON files(provider)`)
-
-    // Settings table
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL,
-        updated_at INTEGER NOT NULL
-      )
-    `)
+  private statement(sql: string): Database.Statement {
+    let stmt = this.statements.get(sql)
+    if (!stmt) {
+      stmt = this.db!.prepare(sql)
+      this.statements.set(sql, stmt)
+    }
+    return stmt
   }
 
   /**
-   * Save database to disk
+   * Run `fn` in a single transaction; nested calls join the outer one
    */
-  private saveToFile(): void {
-    if (!this.db) return
+  transaction<T>(fn: () => T): T {
+    if (!this.db) return fn()
+    return this.db.transaction(fn)()
+  }
 
-    try {
-      const data = this.db.export()
-      const buffer = Buffer.from(data)
-      fs.writeFileSync(DB_PATH, buffer)
-    } catch (e) {
-      console.error('[DB] Failed to save database:', e)
+  /**
+   * Ensure database is ready before operations
+   */
+  async ensureReady(): Promise<void> {
+    if (this.initPromise) {
+      await this.initPromise
     }
   }
 
@@ -165,21 +240,24 @@ export class DatabaseManager {
   getFileRecord(filePath: string): FileRecord | null {
     if (!this.db) return null
 
-    const stmt = this.db.prepare('SELECT path, provider, mtime, size FROM files WHERE path = ?')
-    stmt.bind([filePath])
-    
-    if (stmt.step()) {
-      const row = stmt.getAsObject() as any
-      stmt.free()
-      return {
-        path: row.path,
-        provider: row.provider,
-        mtime: row.mtime,
-        size: row.size,
-      }
+    const row = this.statement('SELECT * FROM files WHERE path = ?').get(filePath) as any
+    if (!row) return null
+    return {
+      path: row.path,
+      provider: row.provider,
+      mtime: row.mtime,
+      size: row.size,
+      checkpoint: this.rowToCheckpoint(row),
+    }
+  }
+
+  private rowToCheckpoint(row: any): ParseCheckpoint | null {
+    if (!row.parse_state) return null
+    try {
+      return { ...JSON.parse(row.parse_state), offset: row.parsed_offset }
+    } catch {
+      return null
     }
-    stmt.free()
-    return null
   }
 
   /**
@@ -197,16 +275,8 @@ export class DatabaseManager {
   getTrackedFiles(provider: Provider): string[] {
     if (!this.db) return []
 
-    const stmt = this.db.prepare('SELECT path FROM files WHERE provider = ?')
-    stmt.bind([provider])
-    
-    const paths: string[] = []
-    while (stmt.step()) {
-      const row = stmt.getAsObject() as { path: string }
-      paths.push(row.path)
-    }
-    stmt.free()
-    return paths
+    const rows = this.statement('SELECT path FROM files WHERE provider = ?').all(provider) as { path: string }[]
+    return rows.map((row) => row.path)
   }
 
   /**
@@ -215,256 +285,936 @@ export class DatabaseManager {
   upsertSession(session: SessionStats): void {
     if (!this.db) return
 
-    // Check if exists
-    const checkStmt = this.db.prepare('SELECT id FROM sessions WHERE path = ?')
-    checkStmt.bind([session.path])
-    const exists = checkStmt.step()
-    checkStmt.free()
-
-    if (exists) {
-      this.db.run(`
-        UPDATE sessions SET
-          provider = ?,
-          session_id = ?,
-          project = ?,
-          messages = ?,
-          user_messages = ?,
-          assistant_messages = ?,
-          tool_uses = ?,
-          input_tokens = ?,
-          output_tokens = ?,
-          cache_read_tokens = ?,
-          cache_creation_tokens = ?,
-          cost_usd = ?,
-          model = ?,
-          first_message = ?,
-          last_message = ?,
-          duration = ?
-        WHERE path = ?
-      `, [
-        session.provider,
-        session.sessionId,
-        session.project || null,
-        session.messages,
-        session.userMessages,
-        session.assistantMessages,
-        session.toolUses || 0,
-        session.inputTokens,
-        session.outputTokens,
-        session.cacheReadTokens || 0,
-        session.cacheCreationTokens || 0,
-        session.costUsd,
-        session.model,
-        session.firstMessage,
-        session.lastMessage,
-        session.duration,
-        session.path,
-      ])
-    } else {
-      this.db.run(`
-        INSERT INTO sessions (
-          path, provider, session_id, project, messages, user_messages,
-          assistant_messages, tool_uses, input_tokens, output_tokens,
-          cache_read_tokens, cache_creation_tokens, cost_usd, model,
-          first_message, last_message, duration
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
+    this.transaction(() => {
+      const exists = this.statement('SELECT id FROM sessions WHERE path = ?').get(session.path) !== undefined
+
+      if (exists) {
+        this.statement(`
+          UPDATE sessions SET
+            provider = ?,
+            session_id = ?,
+            project = ?,
+            messages = ?,
+            user_messages = ?,
+            assistant_messages = ?,
+            tool_uses = ?,
+            input_tokens = ?,
+            output_tokens = ?,
+            cache_read_tokens = ?,
+            cache_creation_tokens = ?,
+            cached_input_tokens = ?,
+            reasoning_output_tokens = ?,
+            duplicate_events = ?,
+            cost_usd = ?,
+            model = ?,
+            first_message = ?,
+            last_message = ?,
+            duration = ?,
+            account = ?,
+            archived = 0
+          WHERE path = ?
+        `).run(
+          session.provider,
+          session.sessionId,
+          session.project || null,
+          session.messages,
+          session.userMessages,
+          session.assistantMessages,
+          session.toolUses || 0,
+          session.inputTokens,
+          session.outputTokens,
+          session.cacheReadTokens || 0,
+          session.cacheCreationTokens || 0,
+          session.cachedInputTokens || 0,
+          session.reasoningOutputTokens || 0,
+          session.duplicateEvents || 0,
+          session.costUsd,
+          session.model,
+          session.firstMessage,
+          session.lastMessage,
+          session.duration,
+          session.account || session.provider,
+          session.path,
+        )
+      } else {
+        this.statement(`
+          INSERT INTO sessions (
+            path, provider, session_id, project, messages, user_messages,
+            assistant_messages, tool_uses, input_tokens, output_tokens,
+            cache_read_tokens, cache_creation_tokens, cached_input_tokens,
+            reasoning_output_tokens, duplicate_events, cost_usd, model,
+            first_message, last_message, duration, account
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          session.path,
+          session.provider,
+          session.sessionId,
+          session.project || null,
+          session.messages,
+          session.userMessages,
+          session.assistantMessages,
+          session.toolUses || 0,
+          session.inputTokens,
+          session.outputTokens,
+          session.cacheReadTokens || 0,
+          session.cacheCreationTokens || 0,
+          session.cachedInputTokens || 0,
+          session.reasoningOutputTokens || 0,
+          session.duplicateEvents || 0,
+          session.costUsd,
+          session.model,
+          session.firstMessage,
+          session.lastMessage,
+          session.duration,
+          session.account || session.provider,
+        )
+      }
+
+      // A resumed parse only carries what was appended to the file
+      if (session.appended) {
+        this.insertEvents(session, session.events || [])
+        this.insertMessages(session.path, session.searchableMessages || [])
+      } else {
+        if (session.events) {
+          this.replaceEvents(session)
+        }
+        if (session.searchableMessages) {
+          this.replaceMessages(session.path, session.searchableMessages)
+        }
+      }
+      if (session.models) {
+        this.replaceModels(session)
+      }
+      if (session.rateLimits) {
+        this.insertRateLimitSnapshot(session)
+      }
+    })
+  }
+
+  /**
+   * Replace the indexed prompt/response text of a session
+   */
+  private replaceMessages(sessionPath: string, messages: SearchableMessage[]): void {
+    if (!this.db) return
+
+    this.deleteMessages(sessionPath)
+    this.insertMessages(sessionPath, messages)
+  }
+
+  /**
+   * Add prompt/response text of a session to the search index
+   */
+  private insertMessages(sessionPath: string, messages: SearchableMessage[]): void {
+    if (!this.db) return
+
+    const insertStmt = this.statement(`
+      INSERT INTO session_messages (session_path, role, timestamp, body) VALUES (?, ?, ?, ?)
+    `)
+    // Indexed under the id of the row just inserted
+    const indexStmt = this.statement('INSERT INTO messages_fts (docid, body) VALUES (last_insert_rowid(), ?)')
+    for (const message of messages) {
+      insertStmt.run(sessionPath, message.role, message.timestamp, message.text)
+      indexStmt.run(message.text)
+    }
+  }
+
+  /**
+   * Drop the indexed text of a session
+   */
+  private deleteMessages(sessionPath: string): void {
+    if (!this.db) return
+
+    // The index reads the old text from session_messages, so it goes first
+    this.statement(`
+      DELETE FROM messages_fts
+      WHERE docid IN (SELECT id FROM session_messages WHERE session_path = ?)
+    `).run(sessionPath)
+    this.statement('DELETE FROM session_messages WHERE session_path = ?').run(sessionPath)
+  }
+
+  /**
+   * Replace the stored usage events of a session with freshly parsed ones
+   */
+  private replaceEvents(session: SessionStats): void {
+    if (!this.db) return
+
+    this.statement('DELETE FROM usage_events WHERE session_path = ?').run(session.path)
+    this.insertEvents(session, session.events || [])
+  }
+
+  /**
+   * Store usage events of a session
+   */
+  private insertEvents(session: SessionStats, events: UsageEvent[]): void {
+    if (!this.db) return
+
+    const stmt = this.statement(`
+      INSERT INTO usage_events (
+        session_path, provider, account, project, timestamp, model, input_tokens,
+        output_tokens, cache_read_tokens, cache_creation_tokens,
+        cache_creation_1h_tokens, cached_input_tokens, reasoning_output_tokens, cost_usd
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    for (const event of events) {
+      stmt.run(
         session.path,
         session.provider,
-        session.sessionId,
+        session.account || session.provider,
         session.project || null,
-        session.messages,
-        session.userMessages,
-        session.assistantMessages,
-        session.toolUses || 0,
-        session.inputTokens,
-        session.outputTokens,
-        session.cacheReadTokens || 0,
-        session.cacheCreationTokens || 0,
-        session.costUsd,
-        session.model,
-        session.firstMessage,
-        session.lastMessage,
-        session.duration,
-      ])
+        event.timestamp,
+        event.model,
+        event.inputTokens,
+        event.outputTokens,
+        event.cacheReadTokens,
+        event.cacheCreationTokens,
+        event.cacheCreation1hTokens,
+        event.cachedInputTokens,
+        event.reasoningOutputTokens,
+        event.costUsd,
+      )
     }
-
-    this.saveToFile()
   }
 
   /**
-   * Update file tracking record
+   * Replace the stored per-model breakdown of a session
    */
-  upsertFileRecord(filePath: string, provider: Provider, mtime: number, size: number): void {
+  private replaceModels(session: SessionStats): void {
     if (!this.db) return
 
-    const checkStmt = this.db.prepare('SELECT path FROM files WHERE path = ?')
-    checkStmt.bind([filePath])
-    const exists = checkStmt.step()
-    checkStmt.free()
+    this.statement('DELETE FROM session_models WHERE session_path = ?').run(session.path)
 
-    if (exists) {
-      this.db.run(
-        'UPDATE files SET mtime = ?, size = ?, last_parsed = ? WHERE path = ?',
-        [mtime, size, Date.now(), filePath]
-      )
-    } else {
-      this.db.run(
-        'INSERT INTO files (path, provider, mtime, size, last_parsed) VALUES (?, ?, ?, ?, ?)',
-        [filePath, provider, mtime, size, Date.now()]
+    const stmt = this.statement(`
+      INSERT INTO session_models (
+        session_path, model, turns, input_tokens, output_tokens,
+        cache_read_tokens, cache_creation_tokens, cost_usd
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    for (const [model, usage] of Object.entries(session.models || {})) {
+      stmt.run(
+        session.path,
+        model,
+        usage.turns,
+        usage.inputTokens,
+        usage.outputTokens,
+        usage.cacheReadTokens,
+        usage.cacheCreationTokens,
+        usage.costUsd,
       )
     }
+  }
+
+  /**
+   * Load per-model breakdowns keyed by session path
+   */
+  private getSessionModels(provider?: Provider): Map<string, Record<string, ModelUsage>> {
+    const result = new Map<string, Record<string, ModelUsage>>()
+    if (!this.db) return result
+
+    const rows = this.statement(`
+      SELECT m.* FROM session_models m
+      JOIN sessions s ON s.path = m.session_path
+      WHERE ? IS NULL OR s.provider = ?
+    `).all(provider || null, provider || null) as any[]
 
-    this.saveToFile()
+    for (const row of rows) {
+      if (!result.has(row.session_path)) result.set(row.session_path, {})
+      result.get(row.session_path)![row.model] = this.rowToModelUsage(row)
+    }
+
+    return result
   }
 
   /**
-   * Remove records for files that no longer exist
+   * Aggregate the per-model breakdowns across all sessions, or those of one account
    */
-  cleanupDeletedFiles(provider: Provider, existingFiles: Set<string>): number {
-    const trackedFiles = this.getTrackedFiles(provider)
-    let deletedCount = 0
+  getModelStats(account: string | null = null): Record<string, ModelStats> {
+    if (!this.db) return {}
 
-    for (const filePath of trackedFiles) {
-      if (!existingFiles.has(filePath)) {
-        if (this.db) {
-          this.db.run('DELETE FROM files WHERE path = ?', [filePath])
-          this.db.run('DELETE FROM sessions WHERE path = ?', [filePath])
-          deletedCount++
-        }
+    const rows = this.statement(`
+      SELECT
+        model,
+        COUNT(*) AS sessions,
+        SUM(input_tokens) AS input_tokens,
+        SUM(output_tokens) AS output_tokens,
+        SUM(cost_usd) AS cost_usd
+      FROM session_models
+      WHERE ? IS NULL OR session_path IN (SELECT path FROM sessions WHERE account = ?)
+      GROUP BY model
+    `).all(account, account) as any[]
+
+    const stats: Record<string, ModelStats> = {}
+    for (const row of rows) {
+      stats[row.model] = {
+        sessions: row.sessions,
+        inputTokens: row.input_tokens || 0,
+        outputTokens: row.output_tokens || 0,
+        costUsd: row.cost_usd || 0,
       }
     }
 
-    if (deletedCount > 0) {
-      this.saveToFile()
+    return stats
+  }
+
+  /**
+   * Record a session's latest rate limit snapshot in the history table
+   */
+  private insertRateLimitSnapshot(session: SessionStats): void {
+    if (!this.db || !session.rateLimits) return
+
+    const { timestamp, primary, secondary } = session.rateLimits
+    this.statement(`
+      INSERT OR IGNORE INTO rate_limit_snapshots (
+        session_path, provider, timestamp,
+        primary_used_percent, primary_window_minutes, primary_resets_at,
+        secondary_used_percent, secondary_window_minutes, secondary_resets_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      session.path,
+      session.provider,
+      timestamp,
+      primary?.usedPercent ?? null,
+      primary?.windowMinutes ?? null,
+      primary?.resetsAt ?? null,
+      secondary?.usedPercent ?? null,
+      secondary?.windowMinutes ?? null,
+      secondary?.resetsAt ?? null,
+    )
+  }
+
+  /**
+   * Get the most recent rate limit snapshot across all sessions, or those of one account
+   */
+  getLatestRateLimits(account: string | null = null): RateLimitSnapshot | null {
+    if (!this.db) return null
+
+    const row = this.statement(`
+      SELECT * FROM rate_limit_snapshots
+      WHERE ? IS NULL OR session_path IN (SELECT path FROM sessions WHERE account = ?)
+      ORDER BY timestamp DESC LIMIT 1
+    `).get(account, account) as any
+    if (!row) return null
+
+    return {
+      timestamp: row.timestamp,
+      primary: row.primary_used_percent === null ? null : {
+        usedPercent: row.primary_used_percent,
+        windowMinutes: row.primary_window_minutes,
+        resetsAt: row.primary_resets_at,
+      },
+      secondary: row.secondary_used_percent === null ? null : {
+        usedPercent: row.secondary_used_percent,
+        windowMinutes: row.secondary_window_minutes,
+        resetsAt: row.secondary_resets_at,
+      },
     }
+  }
+
+  /**
+   * Get a provider's usage events since a point in time, oldest first,
+   * optionally of one account only
+   */
+  getEventTimeline(provider: Provider, since: string, account: string | null = null): BlockEvent[] {
+    if (!this.db) return []
+
+    const rows = this.statement(`
+      SELECT timestamp, model, input_tokens, output_tokens, cache_read_tokens,
+        cache_creation_tokens, cost_usd
+      FROM usage_events
+      WHERE provider = ? AND timestamp IS NOT NULL AND timestamp >= ?
+        AND (? IS NULL OR account = ?)
+      ORDER BY timestamp
+    `).all(provider, since, account, account) as any[]
 
-    return deletedCount
+    return rows.map((row) => ({
+      timestamp: row.timestamp,
+      model: row.model,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheReadTokens: row.cache_read_tokens,
+      cacheCreationTokens: row.cache_creation_tokens,
+      costUsd: row.cost_usd,
+    }))
   }
 
   /**
-   * Get all sessions for a provider from database
+   * Aggregate usage events into time buckets per provider.
+   * By day, buckets are each event's local date (YYYY-MM-DD, daylight saving
+   * included), the same days budgets use; otherwise there is a single total
+   * per provider. With an account, only its events count.
    */
-  getSessions(provider: Provider): SessionStats[] {
+  getEventBuckets(byDay: boolean, since?: string, account: string | null = null): EventBucketRow[] {
     if (!this.db) return []
 
-    const stmt = this.db.prepare(`
-      SELECT * FROM sessions WHERE provider = ?
-      ORDER BY last_message DESC
-    `)
-    stmt.bind([provider])
-
-    const sessions: SessionStats[] = []
-    while (stmt.step()) {
-      const row = stmt.getAsObject() as any
-      sessions.push({
-        path: row.path,
-        provider: row.provider as Provider,
-        sessionId: row.session_id,
-        project: row.project,
-        messages: row.messages,
-        userMessages: row.user_messages,
-        assistantMessages: row.assistant_messages,
-        toolUses: row.tool_uses,
-        inputTokens: row.input_tokens,
-        outputTokens: row.output_tokens,
-        cacheReadTokens: row.cache_read_tokens,
-        cacheCreationTokens: row.cache_creation_tokens,
-        costUsd: row.cost_usd,
-        model: row.model,
-        firstMessage: row.first_message,
-        lastMessage: row.last_message,
-        duration: row.duration,
+    const rows = this.statement(`
+      SELECT
+        CASE WHEN ? THEN date(timestamp, 'localtime') ELSE '' END AS bucket,
+        provider,
+        COUNT(DISTINCT session_path) AS sessions,
+        SUM(input_tokens) AS input_tokens,
+        SUM(output_tokens) AS output_tokens,
+        SUM(reasoning_output_tokens) AS reasoning_output_tokens,
+        SUM(cost_usd) AS cost_usd
+      FROM usage_events
+      WHERE timestamp IS NOT NULL AND timestamp >= ? AND (? IS NULL OR account = ?)
+      GROUP BY bucket, provider
+      ORDER BY bucket
+    `).all(byDay ? 1 : 0, since || '', account, account) as any[]
+
+    return rows.map((row) => ({
+      bucket: row.bucket,
+      provider: row.provider as Provider,
+      sessions: row.sessions,
+      inputTokens: row.input_tokens || 0,
+      outputTokens: row.output_tokens || 0,
+      reasoningOutputTokens: row.reasoning_output_tokens || 0,
+      costUsd: row.cost_usd || 0,
+    }))
+  }
+
+  /**
+   * Aggregate usage events in [start, end) by bucket and group.
+   * Expressions come from the fixed sets in timeseries.ts; the bucket
+   * expression takes the UTC offset modifier as its only parameter.
+   * With an account, only its events count.
+   */
+  getTimeseriesRows(
+    bucketExpr: string,
+    groupExpr: string,
+    metricExpr: string,
+    offsetModifier: string,
+    start: string,
+    end: string,
+    account: string | null = null
+  ): TimeseriesRow[] {
+    if (!this.db) return []
+
+    const rows = this.statement(`
+      SELECT ${bucketExpr} AS bucket, ${groupExpr} AS grp, ${metricExpr} AS value
+      FROM usage_events
+      WHERE timestamp IS NOT NULL AND timestamp >= ? AND timestamp < ? AND (? IS NULL OR account = ?)
+      GROUP BY bucket, grp
+      ORDER BY bucket
+    `).all(offsetModifier, start, end, account, account) as any[]
+
+    return rows.map((row) => ({ bucket: row.bucket, group: row.grp, value: row.value || 0 }))
+  }
+
+  /**
+   * Total cost of usage events in [start, end) for a budget scope.
+   * Project keys match UsageData.byProject, including the `<provider>-sessions` fallback.
+   * Events of `excludedAccounts` don't count, unless the budget is on that account.
+   */
+  getSpend(start: string, end: string, scope: BudgetScope, scopeValue: string | null, excludedAccounts: string[] = []): number {
+    if (!this.db) return 0
+
+    let filter = ''
+    const params: (string | null)[] = [start, end]
+    if (scope === 'provider') {
+      filter = 'AND provider = ?'
+      params.push(scopeValue)
+    } else if (scope === 'project') {
+      filter = "AND COALESCE(project, provider || '-sessions') = ?"
+      params.push(scopeValue)
+    } else if (scope === 'account') {
+      filter = 'AND account = ?'
+      params.push(scopeValue)
+    }
+    if (scope !== 'account' && excludedAccounts.length > 0) {
+      filter += ' AND account NOT IN (SELECT value FROM json_each(?))'
+      params.push(JSON.stringify(excludedAccounts))
+    }
+
+    const row = this.statement(`
+      SELECT SUM(cost_usd) AS cost_usd
+      FROM usage_events
+      WHERE timestamp IS NOT NULL AND timestamp >= ? AND timestamp < ? ${filter}
+    `).get(...params) as { cost_usd: number | null } | undefined
+
+    return row?.cost_usd || 0
+  }
+
+  /**
+   * Get all configured budgets
+   */
+  getBudgets(): Budget[] {
+    if (!this.db) return []
+
+    const rows = this.statement('SELECT * FROM budgets ORDER BY id').all() as any[]
+    return rows.map((row) => ({
+      id: row.id,
+      period: row.period,
+      scope: row.scope,
+      scopeValue: row.scope_value,
+      amountUsd: row.amount_usd,
+    }))
+  }
+
+  /**
+   * Create a budget (id 0) or update an existing one. Returns the budget id.
+   */
+  saveBudget(budget: Budget): number {
+    if (!this.db) return budget.id
+
+    const scopeValue = budget.scope === 'global' ? null : budget.scopeValue
+    if (budget.id > 0) {
+      this.transaction(() => {
+        this.statement('UPDATE budgets SET period = ?, scope = ?, scope_value = ?, amount_usd = ? WHERE id = ?')
+          .run(budget.period, budget.scope, scopeValue, budget.amountUsd, budget.id)
+        // Changed limits start a fresh alert history
+        this.statement('DELETE FROM budget_alerts WHERE budget_id = ?').run(budget.id)
       })
+      return budget.id
     }
-    stmt.free()
 
-    return sessions
+    const result = this.statement('INSERT INTO budgets (period, scope, scope_value, amount_usd, created_at) VALUES (?, ?, ?, ?, ?)')
+      .run(budget.period, budget.scope, scopeValue, budget.amountUsd, Date.now())
+    return Number(result.lastInsertRowid)
   }
 
   /**
-   * Get all sessions from database (all providers)
+   * Delete a budget and its alert history
    */
-  getAllSessions(): SessionStats[] {
+  deleteBudget(id: number): void {
+    if (!this.db) return
+    this.transaction(() => {
+      this.statement('DELETE FROM budgets WHERE id = ?').run(id)
+      this.statement('DELETE FROM budget_alerts WHERE budget_id = ?').run(id)
+    })
+  }
+
+  /**
+   * Whether a threshold has already been alerted on in a budget period
+   */
+  hasBudgetAlert(budgetId: number, periodStart: string, threshold: number): boolean {
+    if (!this.db) return false
+
+    return this.statement('SELECT 1 FROM budget_alerts WHERE budget_id = ? AND period_start = ? AND threshold = ?')
+      .get(budgetId, periodStart, threshold) !== undefined
+  }
+
+  /**
+   * Record a fired budget alert
+   */
+  recordBudgetAlert(alert: BudgetAlert): void {
+    if (!this.db) return
+
+    this.statement('INSERT OR IGNORE INTO budget_alerts (budget_id, period_start, threshold, spent_usd, fired_at) VALUES (?, ?, ?, ?, ?)')
+      .run(alert.budgetId, alert.periodStart, alert.threshold, alert.spentUsd, alert.firedAt)
+  }
+
+  /**
+   * Most recent budget alerts, newest first
+   */
+  getBudgetAlerts(limit: number = 50): BudgetAlert[] {
     if (!this.db) return []
 
-    const stmt = this.db.prepare(`
-      SELECT * FROM sessions
+    const rows = this.statement('SELECT * FROM budget_alerts ORDER BY fired_at DESC, threshold DESC LIMIT ?').all(limit) as any[]
+    return rows.map((row) => ({
+      budgetId: row.budget_id,
+      periodStart: row.period_start,
+      threshold: row.threshold,
+      spentUsd: row.spent_usd,
+      firedAt: row.fired_at,
+    }))
+  }
+
+  /**
+   * Record a finished sync run, dropping the oldest beyond SYNC_HISTORY_LIMIT
+   */
+  recordSyncRun(run: Omit<SyncRun, 'id'>): void {
+    if (!this.db) return
+    this.transaction(() => {
+      this.statement('INSERT INTO sync_runs (trigger, started_at, duration_ms, outcome, added, updated, deleted, error) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+        .run(run.trigger, run.startedAt, run.durationMs, run.outcome, run.added, run.updated, run.deleted, run.error)
+      this.statement('DELETE FROM sync_runs WHERE id NOT IN (SELECT id FROM sync_runs ORDER BY id DESC LIMIT ?)')
+        .run(SYNC_HISTORY_LIMIT)
+    })
+  }
+
+  /**
+   * Most recent sync runs, newest first
+   */
+  getSyncRuns(limit: number = 20): SyncRun[] {
+    if (!this.db) return []
+
+    const rows = this.statement('SELECT * FROM sync_runs ORDER BY id DESC LIMIT ?').all(limit) as any[]
+    return rows.map((row) => ({
+      id: row.id,
+      trigger: row.trigger,
+      startedAt: row.started_at,
+      durationMs: row.duration_ms,
+      outcome: row.outcome,
+      added: row.added,
+      updated: row.updated,
+      deleted: row.deleted,
+      error: row.error,
+    }))
+  }
+
+  /**
+   * Update file tracking record
+   */
+  upsertFileRecord(
+    filePath: string,
+    provider: Provider,
+    mtime: number,
+    size: number,
+    checkpoint: ParseCheckpoint | null = null
+  ): void {
+    if (!this.db) return
+
+    let parseState: string | null = null
+    if (checkpoint) {
+      const { offset, ...state } = checkpoint
+      parseState = JSON.stringify(state)
+    }
+
+    this.statement(`
+      INSERT INTO files (path, provider, mtime, size, last_parsed, parsed_offset, parse_state) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(path) DO UPDATE SET
+        mtime = excluded.mtime,
+        size = excluded.size,
+        last_parsed = excluded.last_parsed,
+        parsed_offset = excluded.parsed_offset,
+        parse_state = excluded.parse_state
+    `).run(filePath, provider, mtime, size, Date.now(), checkpoint?.offset || 0, parseState)
+  }
+
+  /**
+   * Archive sessions whose files no longer exist. Their usage stays in every
+   * aggregate; with `purge` set, archived sessions are deleted instead.
+   */
+  cleanupDeletedFiles(provider: Provider, existingFiles: Set<string>, purge: boolean = false): number {
+    if (!this.db) return 0
+
+    return this.transaction(() => {
+      let deletedCount = 0
+      for (const filePath of this.getTrackedFiles(provider)) {
+        if (!existingFiles.has(filePath)) {
+          this.statement('DELETE FROM files WHERE path = ?').run(filePath)
+          this.statement('UPDATE sessions SET archived = 1 WHERE path = ?').run(filePath)
+          deletedCount++
+        }
+      }
+
+      if (purge) {
+        this.purgeArchivedSessions(provider)
+      }
+
+      return deletedCount
+    })
+  }
+
+  /**
+   * Delete archived sessions and everything recorded for them
+   */
+  purgeArchivedSessions(provider: Provider): number {
+    if (!this.db) return 0
+
+    return this.transaction(() => {
+      const rows = this.statement('SELECT path FROM sessions WHERE provider = ? AND archived = 1').all(provider) as { path: string }[]
+
+      for (const { path: filePath } of rows) {
+        this.statement('DELETE FROM sessions WHERE path = ?').run(filePath)
+        this.statement('DELETE FROM usage_events WHERE session_path = ?').run(filePath)
+        this.statement('DELETE FROM session_models WHERE session_path = ?').run(filePath)
+        this.deleteMessages(filePath)
+      }
+
+      return rows.length
+    })
+  }
+
+  /**
+   * Move a provider's sessions and their usage events to the account of the
+   * root they are under. Roots apply shallow to deep so the deepest wins;
+   * sessions of an account not in `accountIds` go back to the default account.
+   */
+  reassignAccounts(provider: Provider, roots: { path: string; account: string }[], accountIds: string[]): void {
+    if (!this.db) return
+
+    this.transaction(() => {
+      this.statement(`
+        UPDATE sessions SET account = provider
+        WHERE provider = ? AND account NOT IN (SELECT value FROM json_each(?))
+      `).run(provider, JSON.stringify(accountIds))
+
+      for (const root of [...roots].sort((a, b) => a.path.length - b.path.length)) {
+        const prefix = root.path + path.sep
+        this.statement('UPDATE sessions SET account = ? WHERE provider = ? AND substr(path, 1, ?) = ?')
+          .run(root.account, provider, prefix.length, prefix)
+      }
+
+      this.statement(`
+        UPDATE usage_events SET account = (SELECT s.account FROM sessions s WHERE s.path = usage_events.session_path)
+        WHERE provider = ?
+      `).run(provider)
+    })
+  }
+
+  /**
+   * Get all sessions for a provider from database, optionally of one account only
+   */
+  getSessions(provider: Provider, account: string | null = null): SessionStats[] {
+    if (!this.db) return []
+
+    const rows = this.statement(`
+      SELECT * FROM sessions WHERE provider = ? AND (? IS NULL OR account = ?)
       ORDER BY last_message DESC
-    `)
+    `).all(provider, account, account) as any[]
 
-    const sessions: SessionStats[] = []
-    while (stmt.step()) {
-      const row = stmt.getAsObject() as any
-      sessions.push({
-        path: row.path,
-        provider: row.provider as Provider,
-        sessionId: row.session_id,
-        project: row.project,
-        messages: row.messages,
-        userMessages: row.user_messages,
-        assistantMessages: row.assistant_messages,
-        toolUses: row.tool_uses,
-        inputTokens: row.input_tokens,
-        outputTokens: row.output_tokens,
-        cacheReadTokens: row.cache_read_tokens,
-        cacheCreationTokens: row.cache_creation_tokens,
-        costUsd: row.cost_usd,
-        model: row.model,
-        firstMessage: row.first_message,
-        lastMessage: row.last_message,
-        duration: row.duration,
-      })
+    const models = this.getSessionModels(provider)
+    return rows.map((row) => this.rowToSession(row, models))
+  }
+
+  /**
+   * Get a single session by its source file path
+   */
+  getSession(filePath: string): SessionStats | null {
+    if (!this.db) return null
+
+    const row = this.statement('SELECT * FROM sessions WHERE path = ?').get(filePath) as any
+    if (!row) return null
+    return this.rowToSession(row, this.getModelsForSessions([filePath]))
+  }
+
+  /**
+   * Get one page of sessions matching the filters, plus the total match count
+   */
+  querySessions(query: SessionQuery): SessionPage {
+    const offset = Math.max(0, Math.floor(query.offset || 0))
+    const limit = Math.min(500, Math.max(1, Math.floor(query.limit || 100)))
+    if (!this.db) return { sessions: [], total: 0, offset, limit }
+
+    const conditions: string[] = []
+    const params: (string | number)[] = []
+    if (query.provider) {
+      conditions.push('provider = ?')
+      params.push(query.provider)
+    }
+    if (query.account) {
+      conditions.push('account = ?')
+      params.push(query.account)
+    }
+    if (query.project) {
+      conditions.push("COALESCE(project, provider || '-sessions') = ?")
+      params.push(query.project)
+    }
+    if (query.model) {
+      conditions.push('EXISTS (SELECT 1 FROM session_models m WHERE m.session_path = sessions.path AND m.model = ?)')
+      params.push(query.model)
     }
-    stmt.free()
+    // Sessions with any activity inside [start, end)
+    if (query.start) {
+      conditions.push('last_message >= ?')
+      params.push(query.start)
+    }
+    if (query.end) {
+      conditions.push('first_message < ?')
+      params.push(query.end)
+    }
+    if (query.minCost) {
+      conditions.push('cost_usd >= ?')
+      params.push(query.minCost)
+    }
+    if (query.search) {
+      conditions.push('(session_id LIKE ? OR project LIKE ?)')
+      params.push(`%${query.search}%`, `%${query.search}%`)
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    const { total } = this.statement(`SELECT COUNT(*) AS total FROM sessions ${where}`).get(...params) as { total: number }
 
-    return sessions
+    const sortColumn = SESSION_SORT_COLUMNS[query.sortBy] || SESSION_SORT_COLUMNS.lastMessage
+    const sortOrder = query.sortOrder === 'asc' ? 'ASC' : 'DESC'
+    const rows = this.statement(`
+      SELECT * FROM sessions ${where}
+      ORDER BY ${sortColumn} ${sortOrder}, path
+      LIMIT ? OFFSET ?
+    `).all(...params, limit, offset) as any[]
+
+    const models = this.getModelsForSessions(rows.map((row) => row.path))
+    return { sessions: rows.map((row) => this.rowToSession(row, models)), total, offset, limit }
   }
 
   /**
-   * Get database statistics
+   * Full-text search over prompts and responses, newest first
    */
-  getStats(): { sessionCount: number; fileCount: number; dbSize: number } {
-    if (!this.db) {
-      return { sessionCount: 0, fileCount: 0, dbSize: 0 }
+  searchMessages(query: MessageSearchQuery): MessageSearchPage {
+    const offset = Math.max(0, Math.floor(query.offset || 0))
+    const limit = Math.min(200, Math.max(1, Math.floor(query.limit || 50)))
+    const match = toMatchExpression(query.text || '')
+    if (!this.db || !match) return { results: [], total: 0, offset, limit }
+
+    const conditions: string[] = ['messages_fts MATCH ?']
+    const params: (string | number)[] = [match]
+    if (query.provider) {
+      conditions.push('s.provider = ?')
+      params.push(query.provider)
+    }
+    if (query.account) {
+      conditions.push('s.account = ?')
+      params.push(query.account)
     }
+    if (query.project) {
+      conditions.push("COALESCE(s.project, s.provider || '-sessions') = ?")
+      params.push(query.project)
+    }
+    if (query.start) {
+      conditions.push('m.timestamp >= ?')
+      params.push(query.start)
+    }
+    if (query.end) {
+      conditions.push('m.timestamp < ?')
+      params.push(query.end)
+    }
+    const from = `
+      FROM messages_fts
+      JOIN session_messages m ON m.id = messages_fts.docid
+      JOIN sessions s ON s.path = m.session_path
+      WHERE ${conditions.join(' AND ')}
+    `
+
+    const { total } = this.statement(`SELECT COUNT(*) AS total ${from}`).get(...params) as { total: number }
+
+    const rows = this.statement(`
+      SELECT s.*, m.id AS message_id, m.role AS message_role, m.timestamp AS message_timestamp,
+        snippet(messages_fts, ?, ?, '…', -1, 24) AS snippet
+      ${from}
+      ORDER BY m.timestamp DESC, m.id DESC
+      LIMIT ? OFFSET ?
+    `).all(SNIPPET_MATCH_START, SNIPPET_MATCH_END, ...params, limit, offset) as any[]
 
-    let sessionCount = 0
-    let fileCount = 0
+    const models = this.getModelsForSessions([...new Set(rows.map((row) => row.path as string))])
+    const results = rows.map((row): MessageSearchResult => ({
+      id: row.message_id,
+      session: this.rowToSession(row, models),
+      role: row.message_role,
+      timestamp: row.message_timestamp,
+      snippet: row.snippet,
+    }))
 
-    const sessionStmt = this.db.prepare('SELECT COUNT(*) as count FROM sessions')
-    if (sessionStmt.step()) {
-      sessionCount = (sessionStmt.getAsObject() as { count: number }).count
+    return { results, total, offset, limit }
+  }
+
+  /**
+   * Per-model breakdowns for a specific set of sessions
+   */
+  private getModelsForSessions(paths: string[]): Map<string, Record<string, ModelUsage>> {
+    const result = new Map<string, Record<string, ModelUsage>>()
+    if (!this.db || paths.length === 0) return result
+
+    // Paths go in as one JSON array so the statement is the same for any page size
+    const rows = this.statement(`
+      SELECT * FROM session_models
+      WHERE session_path IN (SELECT value FROM json_each(?))
+    `).all(JSON.stringify(paths)) as any[]
+
+    for (const row of rows) {
+      if (!result.has(row.session_path)) result.set(row.session_path, {})
+      result.get(row.session_path)![row.model] = this.rowToModelUsage(row)
+    }
+
+    return result
+  }
+
+  private rowToModelUsage(row: any): ModelUsage {
+    return {
+      turns: row.turns,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheReadTokens: row.cache_read_tokens,
+      cacheCreationTokens: row.cache_creation_tokens,
+      costUsd: row.cost_usd,
     }
-    sessionStmt.free()
+  }
+
+  private rowToSession(row: any, models: Map<string, Record<string, ModelUsage>>): SessionStats {
+    return {
+      path: row.path,
+      provider: row.provider as Provider,
+      account: row.account || row.provider,
+      sessionId: row.session_id,
+      project: row.project,
+      messages: row.messages,
+      userMessages: row.user_messages,
+      assistantMessages: row.assistant_messages,
+      toolUses: row.tool_uses,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheReadTokens: row.cache_read_tokens,
+      cacheCreationTokens: row.cache_creation_tokens,
+      cachedInputTokens: row.cached_input_tokens,
+      reasoningOutputTokens: row.reasoning_output_tokens,
+      duplicateEvents: row.duplicate_events,
+      costUsd: row.cost_usd,
+      model: row.model,
+      models: models.get(row.path) || {},
+      firstMessage: row.first_message,
+      lastMessage: row.last_message,
+      duration: row.duration,
+      archived: row.archived === 1,
+    }
+  }
+
+  /**
+   * Get all sessions from database (all providers)
+   */
+  getAllSessions(): SessionStats[] {
+    if (!this.db) return []
 
-    const fileStmt = this.db.prepare('SELECT COUNT(*) as count FROM files')
-    if (fileStmt.step()) {
-      fileCount = (fileStmt.getAsObject() as { count: number }).count
+    const rows = this.statement(`
+      SELECT * FROM sessions
+      ORDER BY last_message DESC
+    `).all() as any[]
+
+    const models = this.getSessionModels()
+    return rows.map((row) => this.rowToSession(row, models))
+  }
+
+  /**
+   * Get database statistics
+   */
+  getStats(): { sessionCount: number; fileCount: number; archivedCount: number; dbSize: number } {
+    if (!this.db) {
+      return { sessionCount: 0, fileCount: 0, archivedCount: 0, dbSize: 0 }
     }
-    fileStmt.free()
 
+    const count = (sql: string) => (this.statement(sql).get() as { count: number }).count
+    const sessionCount = count('SELECT COUNT(*) as count FROM sessions')
+    const fileCount = count('SELECT COUNT(*) as count FROM files')
+    const archivedCount = count('SELECT COUNT(*) as count FROM sessions WHERE archived = 1')
+
+    // The write-ahead log holds pages not yet checkpointed into the main file
     let dbSize = 0
-    try {
-      if (fs.existsSync(DB_PATH)) {
-        const stats = fs.statSync(DB_PATH)
-        dbSize = stats.size
+    for (const file of [DB_PATH, `${DB_PATH}-wal`]) {
+      try {
+        if (fs.existsSync(file)) {
+          dbSize += fs.statSync(file).size
+        }
+      } catch {
+        // Ignore
       }
-    } catch {
-      // Ignore
     }
 
-    return { sessionCount, fileCount, dbSize }
+    return { sessionCount, fileCount, archivedCount, dbSize }
   }
 
   /**
-   * Clear all data (for debugging/reset)
+   * Clear parsed data so every file gets parsed again. Archived sessions have
+   * no file left to re-parse, so they are kept as they are.
    */
   clearAll(): void {
     if (!this.db) return
-    this.db.run('DELETE FROM sessions')
-    this.db.run('DELETE FROM files')
-    this.saveToFile()
+    const live = 'session_path NOT IN (SELECT path FROM sessions WHERE archived = 1)'
+    this.transaction(() => {
+      this.db!.exec(`DELETE FROM usage_events WHERE ${live}`)
+      this.db!.exec(`DELETE FROM session_models WHERE ${live}`)
+      this.db!.exec(`DELETE FROM session_messages WHERE ${live}`)
+      this.db!.exec("INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')")
+      this.db!.exec('DELETE FROM sessions WHERE archived = 0')
+      this.db!.exec('DELETE FROM files')
+    })
   }
 
   /**
@@ -473,25 +1223,10 @@ export class DatabaseManager {
   saveSetting(key: string, value: string): void {
     if (!this.db) return
 
-    const now = Date.now()
-    const checkStmt = this.db.prepare('SELECT key FROM settings WHERE key = ?')
-    checkStmt.bind([key])
-    const exists = checkStmt.step()
-    checkStmt.free()
-
-    if (exists) {
-      this.db.run(
-        'UPDATE settings SET value = ?, updated_at = ? WHERE key = ?',
-        [value, now, key]
-      )
-    } else {
-      this.db.run(
-        'INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)',
-        [key, value, now]
-      )
-    }
-
-    this.saveToFile()
+    this.statement(`
+      INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `).run(key, value, Date.now())
   }
 
   /**
@@ -500,16 +1235,8 @@ export class DatabaseManager {
   getSetting(key: string, defaultValue: string = ''): string {
     if (!this.db) return defaultValue
 
-    const stmt = this.db.prepare('SELECT value FROM settings WHERE key = ?')
-    stmt.bind([key])
-
-    if (stmt.step()) {
-      const row = stmt.getAsObject() as { value: string }
-      stmt.free()
-      return row.value
-    }
-    stmt.free()
-    return defaultValue
+    const row = this.statement('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined
+    return row ? row.value : defaultValue
   }
 
   /**
@@ -517,7 +1244,7 @@ export class DatabaseManager {
    */
   close(): void {
     if (this.db) {
-      this.saveToFile()
+      this.statements.clear()
       this.db.close()
       this.db = null
     }
@@ -530,8 +1257,9 @@ let dbInstance: DatabaseManager | null = null
 export async function getDatabase(): Promise<DatabaseManager> {
   if (!dbInstance) {
     dbInstance = new DatabaseManager()
-    await dbInstance.ensureReady()
   }
+  // Rethrows a failed open or migration on every call instead of handing out an empty manager
+  await dbInstance.ensureReady()
   return dbInstance
 }
 
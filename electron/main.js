@@ -11,6 +11,11 @@ const path_1 = __importDefault(require("path"));
 const os_1 = __importDefault(require("os"));
 const parser_1 = require("./parser");
 const database_1 = require("./database");
+const budgets_1 = require("./budgets");
+const timeseries_1 = require("./timeseries");
+const transcript_1 = require("./transcript");
+const watcher_1 = require("./watcher");
+const roots_1 = require("./roots");
 let mainWindow = null;
 const isDev = process.env.NODE_ENV !== 'production' || process.argv.includes('--dev');
 function createWindow() {
@@ -63,7 +68,18 @@ electron_1.ipcMain.handle('window-resize', (_event, width, height) => {
         mainWindow.center();
     }
 });
-electron_1.app.whenReady().then(createWindow);
+electron_1.app.whenReady().then(() => {
+    createWindow();
+    parser
+        .getSessionRoots()
+        .catch((error) => {
+        // Without the database there are no saved roots; still watch the default ones
+        console.error('[Watcher] Failed to load session roots:', error);
+        return (0, roots_1.detectSessionRoots)();
+    })
+        .then((roots) => watcher.start(roots))
+        .catch((error) => console.error('[Watcher] Failed to start:', error));
+});
 electron_1.app.on('window-all-closed', () => {
     if (process.platform !== 'darwin') {
         electron_1.app.quit();
@@ -71,6 +87,8 @@ electron_1.app.on('window-all-closed', () => {
 });
 // Close database when quitting
 electron_1.app.on('will-quit', () => {
+    watcher.stop();
+    parser.close();
     (0, parser_1.closeDatabase)();
 });
 electron_1.app.on('activate', () => {
@@ -80,9 +98,35 @@ electron_1.app.on('activate', () => {
 });
 // IPC Handlers for data
 const parser = new parser_1.SessionParser();
-electron_1.ipcMain.handle('get-all-usage', async () => {
+// Budget alerts are checked after every sync
+const budgetEngine = new budgets_1.BudgetEngine((title, body) => {
+    if (electron_1.Notification.isSupported()) {
+        new electron_1.Notification({ title, body }).show();
+    }
+});
+parser.onSync(() => budgetEngine.check().then(() => undefined));
+// State and progress of sync jobs, for the loading overlay and the title bar
+parser.onStatus((status) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('sync-status', status);
+    }
+});
+// Account the renderer last asked usage for; pushed usage is aggregated for it too
+let usageAccount = null;
+async function pushUsage() {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('usage-updated', await parser.aggregateUsage(usageAccount));
+    }
+}
+// Session files written while the app is open are parsed as they change and pushed to the renderer
+const watcher = new watcher_1.SessionWatcher(async (changes) => {
+    await parser.syncChangedFiles(changes);
+    await pushUsage();
+});
+electron_1.ipcMain.handle('get-all-usage', async (_event, account = null) => {
     try {
-        const usage = await parser.getAllUsage();
+        usageAccount = account;
+        const usage = await parser.getAllUsage(account);
         return { success: true, data: usage };
     }
     catch (error) {
@@ -98,11 +142,136 @@ electron_1.ipcMain.handle('get-sessions', async (_event, provider) => {
         return { success: false, error: error.message };
     }
 });
-electron_1.ipcMain.handle('refresh-data', async () => {
+electron_1.ipcMain.handle('query-sessions', async (_event, query) => {
+    try {
+        const db = await (0, database_1.getDatabase)();
+        return { success: true, data: db.querySessions(query) };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('search-messages', async (_event, query) => {
+    try {
+        const db = await (0, database_1.getDatabase)();
+        return { success: true, data: db.searchMessages(query) };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('get-session-detail', async (_event, filePath) => {
+    try {
+        const data = await parser.getSessionDetail(filePath);
+        return { success: true, data };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('get-transcript', async (_event, filePath) => {
+    try {
+        // Only paths of indexed sessions, never arbitrary files
+        const db = await (0, database_1.getDatabase)();
+        const session = db.getSession(filePath);
+        if (!session) {
+            throw new Error('Session not found');
+        }
+        return { success: true, data: await (0, transcript_1.readTranscript)(session.provider, session.path) };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+// A list of queries (e.g. several metrics over the same buckets) is answered in one round-trip
+electron_1.ipcMain.handle('get-timeseries', async (_event, query) => {
+    try {
+        const db = await (0, database_1.getDatabase)();
+        const data = Array.isArray(query) ? query.map((item) => (0, timeseries_1.queryTimeseries)(db, item)) : (0, timeseries_1.queryTimeseries)(db, query);
+        return { success: true, data };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('refresh-data', async (_event, account = null) => {
     try {
         parser.clearCache();
-        const usage = await parser.getAllUsage();
-        return { success: true, data: usage };
+        await parser.syncAll('manual');
+        return { success: true, data: await parser.aggregateUsage(account) };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+// Sync jobs: started in the background, followed through sync-status events,
+// with the results pushed as usage-updated when they finish
+electron_1.ipcMain.handle('start-sync', () => {
+    parser.clearCache();
+    parser.syncAll('manual')
+        .then(pushUsage)
+        .catch((error) => console.error('[DB Sync] Sync failed:', error));
+    return { success: true };
+});
+electron_1.ipcMain.handle('cancel-sync', () => {
+    return parser.cancelSync();
+});
+electron_1.ipcMain.handle('get-sync-status', () => {
+    return parser.getSyncStatus();
+});
+electron_1.ipcMain.handle('get-sync-history', async () => {
+    try {
+        return { success: true, data: await parser.getSyncHistory() };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+// Session roots
+electron_1.ipcMain.handle('get-session-roots', async () => {
+    try {
+        return { success: true, data: await parser.inspectSessionRoots() };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('inspect-session-root', async (_event, provider, rootPath) => {
+    try {
+        return { success: true, data: await parser.inspectSessionRoot(provider, rootPath) };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('save-session-roots', async (_event, config) => {
+    try {
+        watcher.start(await parser.saveSessionRoots(config));
+        // Pick up sessions under new roots and archive those under removed ones
+        await parser.syncAll('manual');
+        await pushUsage();
+        return { success: true, data: await parser.inspectSessionRoots() };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+// Accounts
+electron_1.ipcMain.handle('get-accounts', async () => {
+    try {
+        return { success: true, data: await parser.getAccountConfig() };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('save-accounts', async (_event, config) => {
+    try {
+        const saved = await parser.saveAccounts(config);
+        // Pricing modes change what counts toward budgets
+        await budgetEngine.check();
+        await pushUsage();
+        return { success: true, data: saved };
     }
     catch (error) {
         return { success: false, error: error.message };
@@ -119,6 +288,11 @@ electron_1.ipcMain.handle('get-db-stats', async () => {
 // Settings handlers
 electron_1.ipcMain.handle('save-setting', async (_event, key, value) => {
     try {
+        // Turning history off purges archived sessions, which the parser does under its sync lock
+        if (key === database_1.KEEP_DELETED_SESSIONS_SETTING) {
+            await parser.saveKeepDeletedSessions(value !== 'false');
+            return { success: true };
+        }
         const db = await (0, database_1.getDatabase)();
         db.saveSetting(key, value);
         return { success: true };
@@ -137,3 +311,62 @@ electron_1.ipcMain.handle('get-setting', async (_event, key, defaultValue = '')
         return { success: false, error: error.message, value: defaultValue };
     }
 });
+// Budget handlers
+electron_1.ipcMain.handle('get-budgets', async () => {
+    try {
+        const db = await (0, database_1.getDatabase)();
+        return { success: true, data: (0, budgets_1.evaluateBudgets)(db) };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('save-budget', async (_event, budget) => {
+    try {
+        const db = await (0, database_1.getDatabase)();
+        const id = db.saveBudget(budget);
+        // Alert right away if the new limit is already exceeded
+        await budgetEngine.check();
+        return { success: true, data: id };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('delete-budget', async (_event, id) => {
+    try {
+        const db = await (0, database_1.getDatabase)();
+        db.deleteBudget(id);
+        return { success: true };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('get-budget-alerts', async () => {
+    try {
+        const db = await (0, database_1.getDatabase)();
+        return { success: true, data: db.getBudgetAlerts() };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+// Pricing catalog handlers
+electron_1.ipcMain.handle('get-pricing', async () => {
+    try {
+        return { success: true, data: parser.getPricingCatalog() };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
+electron_1.ipcMain.handle('save-pricing-overrides', async (_event, overrides) => {
+    try {
+        await parser.savePricingOverrides(overrides);
+        return { success: true, data: parser.getPricingCatalog() };
+    }
+    catch (error) {
+        return { success: false, error: error.message };
+    }
+});
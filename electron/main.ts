@@ -2,11 +2,18 @@
  * LLM Usage Tracker - Electron Main Process
  */
 
-import { app, BrowserWindow, ipcMain } from 'electron'
+import { app, BrowserWindow, ipcMain, Notification } from 'electron'
 import path from 'path'
 import os from 'os'
-import { SessionParser, closeDatabase } from './parser'
-import { getDatabase } from './database'
+import { SessionParser, closeDatabase, type Provider } from './parser'
+import { getDatabase, KEEP_DELETED_SESSIONS_SETTING, type MessageSearchQuery, type SessionQuery } from './database'
+import { BudgetEngine, evaluateBudgets, type Budget } from './budgets'
+import type { PricingTable } from './pricing'
+import { queryTimeseries, type TimeseriesQuery } from './timeseries'
+import { readTranscript } from './transcript'
+import { SessionWatcher } from './watcher'
+import { detectSessionRoots, type SessionRootConfig } from './roots'
+import type { AccountConfig } from './accounts'
 
 let mainWindow: BrowserWindow | null = null
 
@@ -67,7 +74,18 @@ ipcMain.handle('window-resize', (_event, width: number, height: number) => {
   }
 })
 
-app.whenReady().then(createWindow)
+app.whenReady().then(() => {
+  createWindow()
+  parser
+    .getSessionRoots()
+    .catch((error) => {
+      // Without the database there are no saved roots; still watch the default ones
+      console.error('[Watcher] Failed to load session roots:', error)
+      return detectSessionRoots()
+    })
+    .then((roots) => watcher.start(roots))
+    .catch((error) => console.error('[Watcher] Failed to start:', error))
+})
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
@@ -77,6 +95,8 @@ app.on('window-all-closed', () => {
 
 // Close database when quitting
 app.on('will-quit', () => {
+  watcher.stop()
+  parser.close()
   closeDatabase()
 })
 
@@ -89,9 +109,40 @@ app.on('activate', () => {
 // IPC Handlers for data
 const parser = new SessionParser()
 
-ipcMain.handle('get-all-usage', async () => {
+// Budget alerts are checked after every sync
+const budgetEngine = new BudgetEngine((title, body) => {
+  if (Notification.isSupported()) {
+    new Notification({ title, body }).show()
+  }
+})
+parser.onSync(() => budgetEngine.check().then(() => undefined))
+
+// State and progress of sync jobs, for the loading overlay and the title bar
+parser.onStatus((status) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('sync-status', status)
+  }
+})
+
+// Account the renderer last asked usage for; pushed usage is aggregated for it too
+let usageAccount: string | null = null
+
+async function pushUsage(): Promise<void> {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('usage-updated', await parser.aggregateUsage(usageAccount))
+  }
+}
+
+// Session files written while the app is open are parsed as they change and pushed to the renderer
+const watcher = new SessionWatcher(async (changes) => {
+  await parser.syncChangedFiles(changes)
+  await pushUsage()
+})
+
+ipcMain.handle('get-all-usage', async (_event, account: string | null = null) => {
   try {
-    const usage = await parser.getAllUsage()
+    usageAccount = account
+    const usage = await parser.getAllUsage(account)
     return { success: true, data: usage }
   } catch (error) {
     return { success: false, error: (error as Error).message }
@@ -107,11 +158,139 @@ ipcMain.handle('get-sessions', async (_event, provider: string) => {
   }
 })
 
-ipcMain.handle('refresh-data', async () => {
+ipcMain.handle('query-sessions', async (_event, query: SessionQuery) => {
+  try {
+    const db = await getDatabase()
+    return { success: true, data: db.querySessions(query) }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('search-messages', async (_event, query: MessageSearchQuery) => {
+  try {
+    const db = await getDatabase()
+    return { success: true, data: db.searchMessages(query) }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('get-session-detail', async (_event, filePath: string) => {
+  try {
+    const data = await parser.getSessionDetail(filePath)
+    return { success: true, data }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('get-transcript', async (_event, filePath: string) => {
+  try {
+    // Only paths of indexed sessions, never arbitrary files
+    const db = await getDatabase()
+    const session = db.getSession(filePath)
+    if (!session) {
+      throw new Error('Session not found')
+    }
+    return { success: true, data: await readTranscript(session.provider, session.path) }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+// A list of queries (e.g. several metrics over the same buckets) is answered in one round-trip
+ipcMain.handle('get-timeseries', async (_event, query: TimeseriesQuery | TimeseriesQuery[]) => {
+  try {
+    const db = await getDatabase()
+    const data = Array.isArray(query) ? query.map((item) => queryTimeseries(db, item)) : queryTimeseries(db, query)
+    return { success: true, data }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('refresh-data', async (_event, account: string | null = null) => {
   try {
     parser.clearCache()
-    const usage = await parser.getAllUsage()
-    return { success: true, data: usage }
+    await parser.syncAll('manual')
+    return { success: true, data: await parser.aggregateUsage(account) }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+// Sync jobs: started in the background, followed through sync-status events,
+// with the results pushed as usage-updated when they finish
+ipcMain.handle('start-sync', () => {
+  parser.clearCache()
+  parser.syncAll('manual')
+    .then(pushUsage)
+    .catch((error) => console.error('[DB Sync] Sync failed:', error))
+  return { success: true }
+})
+
+ipcMain.handle('cancel-sync', () => {
+  return parser.cancelSync()
+})
+
+ipcMain.handle('get-sync-status', () => {
+  return parser.getSyncStatus()
+})
+
+ipcMain.handle('get-sync-history', async () => {
+  try {
+    return { success: true, data: await parser.getSyncHistory() }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+// Session roots
+ipcMain.handle('get-session-roots', async () => {
+  try {
+    return { success: true, data: await parser.inspectSessionRoots() }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('inspect-session-root', async (_event, provider: Provider, rootPath: string) => {
+  try {
+    return { success: true, data: await parser.inspectSessionRoot(provider, rootPath) }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('save-session-roots', async (_event, config: SessionRootConfig) => {
+  try {
+    watcher.start(await parser.saveSessionRoots(config))
+    // Pick up sessions under new roots and archive those under removed ones
+    await parser.syncAll('manual')
+    await pushUsage()
+    return { success: true, data: await parser.inspectSessionRoots() }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+// Accounts
+ipcMain.handle('get-accounts', async () => {
+  try {
+    return { success: true, data: await parser.getAccountConfig() }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('save-accounts', async (_event, config: AccountConfig) => {
+  try {
+    const saved = await parser.saveAccounts(config)
+    // Pricing modes change what counts toward budgets
+    await budgetEngine.check()
+    await pushUsage()
+    return { success: true, data: saved }
   } catch (error) {
     return { success: false, error: (error as Error).message }
   }
@@ -130,6 +309,11 @@ ipcMain.handle('get-db-stats', async () => {
 // Settings handlers
 ipcMain.handle('save-setting', async (_event, key: string, value: string) => {
   try {
+    // Turning history off purges archived sessions, which the parser does under its sync lock
+    if (key === KEEP_DELETED_SESSIONS_SETTING) {
+      await parser.saveKeepDeletedSessions(value !== 'false')
+      return { success: true }
+    }
     const db = await getDatabase()
     db.saveSetting(key, value)
     return { success: true }
@@ -148,3 +332,61 @@ ipcMain.handle('get-setting', async (_event, key: string, defaultValue: string =
   }
 })
 
+// Budget handlers
+ipcMain.handle('get-budgets', async () => {
+  try {
+    const db = await getDatabase()
+    return { success: true, data: evaluateBudgets(db) }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('save-budget', async (_event, budget: Budget) => {
+  try {
+    const db = await getDatabase()
+    const id = db.saveBudget(budget)
+    // Alert right away if the new limit is already exceeded
+    await budgetEngine.check()
+    return { success: true, data: id }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('delete-budget', async (_event, id: number) => {
+  try {
+    const db = await getDatabase()
+    db.deleteBudget(id)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('get-budget-alerts', async () => {
+  try {
+    const db = await getDatabase()
+    return { success: true, data: db.getBudgetAlerts() }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+// Pricing catalog handlers
+ipcMain.handle('get-pricing', async () => {
+  try {
+    return { success: true, data: parser.getPricingCatalog() }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
+
+ipcMain.handle('save-pricing-overrides', async (_event, overrides: PricingTable) => {
+  try {
+    await parser.savePricingOverrides(overrides)
+    return { success: true, data: parser.getPricingCatalog() }
+  } catch (error) {
+    return { success: false, error: (error as Error).message }
+  }
+})
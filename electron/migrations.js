@@ -0,0 +1,260 @@
+"use strict";
+/**
+ * Migrations - Versioned schema changes for the cache database
+ *
+ * The schema version is kept in `PRAGMA user_version`. At startup every
+ * migration newer than the stored version runs in order, each in its own
+ * transaction together with the version bump, so a failed step leaves the
+ * database at the last version that applied cleanly. Destructive steps
+ * (dropping or rebuilding tables) back up the file first.
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.LATEST_SCHEMA_VERSION = exports.MIGRATIONS = exports.MigrationError = void 0;
+exports.runMigrations = runMigrations;
+class MigrationError extends Error {
+    constructor(migration, cause, backupPath) {
+        super(`Database migration ${migration.version} (${migration.description}) failed: ${cause.message}` +
+            (backupPath ? `. A backup from before the migration is at ${backupPath}` : ''));
+        this.migration = migration;
+        this.cause = cause;
+        this.backupPath = backupPath;
+        this.name = 'MigrationError';
+    }
+}
+exports.MigrationError = MigrationError;
+/**
+ * Add a column if it is missing. Only for the baseline migration, which has
+ * to bring databases of any pre-versioning shape to the same schema; later
+ * migrations know the exact schema they start from.
+ */
+function addMissingColumn(db, table, column, definition) {
+    const columns = db.pragma(`table_info(${table})`);
+    if (!columns.some((row) => row.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
+// Append new steps with the next version number; never edit a shipped one
+exports.MIGRATIONS = [
+    {
+        version: 1,
+        description: 'Baseline schema',
+        up: (db) => {
+            db.exec(`
+        CREATE TABLE IF NOT EXISTS files (
+          path TEXT PRIMARY KEY,
+          provider TEXT NOT NULL,
+          mtime INTEGER NOT NULL,
+          size INTEGER NOT NULL,
+          last_parsed INTEGER NOT NULL
+        )
+      `);
+            db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          path TEXT NOT NULL UNIQUE,
+          provider TEXT NOT NULL,
+          session_id TEXT NOT NULL,
+          project TEXT,
+          messages INTEGER DEFAULT 0,
+          user_messages INTEGER DEFAULT 0,
+          assistant_messages INTEGER DEFAULT 0,
+          tool_uses INTEGER DEFAULT 0,
+          input_tokens INTEGER DEFAULT 0,
+          output_tokens INTEGER DEFAULT 0,
+          cache_read_tokens INTEGER DEFAULT 0,
+          cache_creation_tokens INTEGER DEFAULT 0,
+          cached_input_tokens INTEGER DEFAULT 0,
+          reasoning_output_tokens INTEGER DEFAULT 0,
+          duplicate_events INTEGER DEFAULT 0,
+          cost_usd REAL DEFAULT 0,
+          model TEXT,
+          first_message TEXT,
+          last_message TEXT,
+          duration INTEGER DEFAULT 0
+        )
+      `);
+            // One row per assistant turn, replaced whenever its session is re-parsed
+            db.exec(`
+        CREATE TABLE IF NOT EXISTS usage_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_path TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          project TEXT,
+          timestamp TEXT,
+          model TEXT,
+          input_tokens INTEGER DEFAULT 0,
+          output_tokens INTEGER DEFAULT 0,
+          cache_read_tokens INTEGER DEFAULT 0,
+          cache_creation_tokens INTEGER DEFAULT 0,
+          cache_creation_1h_tokens INTEGER DEFAULT 0,
+          cached_input_tokens INTEGER DEFAULT 0,
+          reasoning_output_tokens INTEGER DEFAULT 0,
+          cost_usd REAL DEFAULT 0
+        )
+      `);
+            // Per-model breakdown of each session
+            db.exec(`
+        CREATE TABLE IF NOT EXISTS session_models (
+          session_path TEXT NOT NULL,
+          model TEXT NOT NULL,
+          turns INTEGER DEFAULT 0,
+          input_tokens INTEGER DEFAULT 0,
+          output_tokens INTEGER DEFAULT 0,
+          cache_read_tokens INTEGER DEFAULT 0,
+          cache_creation_tokens INTEGER DEFAULT 0,
+          cost_usd REAL DEFAULT 0,
+          PRIMARY KEY (session_path, model)
+        )
+      `);
+            // History of Codex rate limit snapshots (kept when sessions are re-parsed or removed)
+            db.exec(`
+        CREATE TABLE IF NOT EXISTS rate_limit_snapshots (
+          session_path TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          primary_used_percent REAL,
+          primary_window_minutes INTEGER,
+          primary_resets_at TEXT,
+          secondary_used_percent REAL,
+          secondary_window_minutes INTEGER,
+          secondary_resets_at TEXT,
+          PRIMARY KEY (session_path, timestamp)
+        )
+      `);
+            // User-defined spend budgets
+            db.exec(`
+        CREATE TABLE IF NOT EXISTS budgets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          period TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          scope_value TEXT,
+          amount_usd REAL NOT NULL,
+          created_at INTEGER NOT NULL
+        )
+      `);
+            // Thresholds already alerted on, one row per budget period
+            db.exec(`
+        CREATE TABLE IF NOT EXISTS budget_alerts (
+          budget_id INTEGER NOT NULL,
+          period_start TEXT NOT NULL,
+          threshold INTEGER NOT NULL,
+          spent_usd REAL NOT NULL,
+          fired_at TEXT NOT NULL,
+          PRIMARY KEY (budget_id, period_start, threshold)
+        )
+      `);
+            // Prompt and response text of each session, replaced whenever it is re-parsed
+            db.exec(`
+        CREATE TABLE IF NOT EXISTS session_messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_path TEXT NOT NULL,
+          role TEXT NOT NULL,
+          timestamp TEXT,
+          body TEXT NOT NULL
+        )
+      `);
+            // Full-text index over session_messages.body (FTS4, which databases imported from sql.js already use)
+            db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts
+        USING fts4(content="session_messages", body, tokenize=unicode61)
+      `);
+            // Databases from before versioning may predate these columns
+            addMissingColumn(db, 'sessions', 'duplicate_events', 'INTEGER DEFAULT 0');
+            addMissingColumn(db, 'usage_events', 'cache_creation_1h_tokens', 'INTEGER DEFAULT 0');
+            addMissingColumn(db, 'sessions', 'cached_input_tokens', 'INTEGER DEFAULT 0');
+            addMissingColumn(db, 'sessions', 'reasoning_output_tokens', 'INTEGER DEFAULT 0');
+            addMissingColumn(db, 'usage_events', 'cached_input_tokens', 'INTEGER DEFAULT 0');
+            addMissingColumn(db, 'usage_events', 'reasoning_output_tokens', 'INTEGER DEFAULT 0');
+            addMissingColumn(db, 'sessions', 'archived', 'INTEGER DEFAULT 0');
+            // Create indexes
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_provider ON sessions(provider)`);
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_project ON sessions(project)`);
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_last_message ON sessions(last_message)`);
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_files_provider ON files(provider)`);
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_events_session ON usage_events(session_path)`);
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_events_timestamp ON usage_events(timestamp)`);
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_rate_limits_timestamp ON rate_limit_snapshots(timestamp)`);
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_messages_session ON session_messages(session_path)`);
+            // Settings table
+            db.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+        },
+    },
+    {
+        version: 2,
+        description: 'Parse checkpoints for incremental parsing',
+        up: (db) => {
+            db.exec('ALTER TABLE files ADD COLUMN parsed_offset INTEGER DEFAULT 0');
+            db.exec('ALTER TABLE files ADD COLUMN parse_state TEXT');
+        },
+    },
+    {
+        version: 3,
+        description: 'Sync run history',
+        up: (db) => {
+            db.exec(`
+        CREATE TABLE sync_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          trigger TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          duration_ms INTEGER NOT NULL,
+          outcome TEXT NOT NULL,
+          added INTEGER NOT NULL,
+          updated INTEGER NOT NULL,
+          deleted INTEGER NOT NULL,
+          error TEXT
+        )
+      `);
+        },
+    },
+    {
+        version: 4,
+        description: 'Accounts of sessions and usage events',
+        up: (db) => {
+            db.exec('ALTER TABLE sessions ADD COLUMN account TEXT');
+            db.exec('ALTER TABLE usage_events ADD COLUMN account TEXT');
+            // Everything parsed so far belongs to its provider's default account
+            db.exec('UPDATE sessions SET account = provider');
+            db.exec('UPDATE usage_events SET account = provider');
+            db.exec('CREATE INDEX idx_sessions_account ON sessions(account)');
+            db.exec('CREATE INDEX idx_events_account ON usage_events(account)');
+        },
+    },
+];
+exports.LATEST_SCHEMA_VERSION = exports.MIGRATIONS[exports.MIGRATIONS.length - 1].version;
+/**
+ * Bring the database up to LATEST_SCHEMA_VERSION. Throws a MigrationError
+ * naming the failed step; earlier steps stay applied.
+ */
+function runMigrations(db, dbPath) {
+    const current = db.pragma('user_version', { simple: true });
+    if (current > exports.LATEST_SCHEMA_VERSION) {
+        throw new Error(`The usage database has schema version ${current}, but this version of the app only knows up to ${exports.LATEST_SCHEMA_VERSION}. Update the app to open it.`);
+    }
+    for (const migration of exports.MIGRATIONS) {
+        if (migration.version <= current)
+            continue;
+        let backupPath = null;
+        try {
+            if (migration.destructive) {
+                backupPath = `${dbPath}.backup-v${migration.version - 1}-${Date.now()}`;
+                // VACUUM INTO writes a consistent copy, WAL contents included
+                db.prepare('VACUUM INTO ?').run(backupPath);
+                console.log(`[DB] Backed up database to ${backupPath}`);
+            }
+            db.transaction(() => {
+                migration.up(db);
+                db.pragma(`user_version = ${migration.version}`);
+            })();
+            console.log(`[DB] Applied migration ${migration.version}: ${migration.description}`);
+        }
+        catch (e) {
+            throw new MigrationError(migration, e, backupPath);
+        }
+    }
+}
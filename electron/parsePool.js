@@ -0,0 +1,146 @@
+"use strict";
+/**
+ * Parse Pool - Session files parsed off the main process
+ *
+ * Parsing a large sync on the Electron main process stalls the window, so
+ * files are handed to a few worker threads (see parseWorker.ts). Workers
+ * start on first use and take one file at a time; jobs waiting for a free
+ * worker are held in a bounded queue, which callers fill through
+ * waitForRoom() so a sync of thousands of files doesn't queue them all at once.
+ */
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || (function () {
+    var ownKeys = function(o) {
+        ownKeys = Object.getOwnPropertyNames || function (o) {
+            var ar = [];
+            for (var k in o) if (Object.prototype.hasOwnProperty.call(o, k)) ar[ar.length] = k;
+            return ar;
+        };
+        return ownKeys(o);
+    };
+    return function (mod) {
+        if (mod && mod.__esModule) return mod;
+        var result = {};
+        if (mod != null) for (var k = ownKeys(mod), i = 0; i < k.length; i++) if (k[i] !== "default") __createBinding(result, mod, k[i]);
+        __setModuleDefault(result, mod);
+        return result;
+    };
+})();
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.ParsePool = void 0;
+const os = __importStar(require("os"));
+const path = __importStar(require("path"));
+const worker_threads_1 = require("worker_threads");
+const WORKER_PATH = path.join(__dirname, 'parseWorker.js');
+// Leave a core for the main process and the renderer
+const POOL_SIZE = Math.max(1, Math.min(4, os.cpus().length - 1));
+// Jobs waiting for a worker, per worker
+const QUEUE_PER_WORKER = 4;
+class ParsePool {
+    constructor(size = POOL_SIZE, maxQueued = POOL_SIZE * QUEUE_PER_WORKER) {
+        this.size = size;
+        this.maxQueued = maxQueued;
+        this.workers = [];
+        this.queue = [];
+        // Callers waiting in waitForRoom()
+        this.roomWaiters = [];
+        this.nextId = 1;
+    }
+    /**
+     * Resolves once the queue has room for another job
+     */
+    waitForRoom() {
+        if (this.queue.length < this.maxQueued)
+            return Promise.resolve();
+        return new Promise((resolve) => this.roomWaiters.push(resolve));
+    }
+    /**
+     * Parse a file on a worker thread
+     */
+    parse(job) {
+        return new Promise((resolve, reject) => {
+            this.queue.push({ request: { ...job, id: this.nextId++ }, resolve, reject });
+            this.dispatch();
+        });
+    }
+    /**
+     * Stop all workers; queued and running jobs fail
+     */
+    close() {
+        const error = new Error('Parse pool closed');
+        for (const { worker, job } of this.workers) {
+            job?.reject(error);
+            worker.terminate();
+        }
+        for (const job of this.queue) {
+            job.reject(error);
+        }
+        this.workers = [];
+        this.queue = [];
+        this.releaseRoom();
+    }
+    dispatch() {
+        while (this.queue.length > 0) {
+            let idle = this.workers.find((entry) => !entry.job);
+            if (!idle && this.workers.length < this.size) {
+                idle = this.spawn();
+            }
+            if (!idle)
+                break;
+            idle.job = this.queue.shift();
+            // Idle workers don't keep the process alive, busy ones do
+            idle.worker.ref();
+            idle.worker.postMessage(idle.job.request);
+        }
+        this.releaseRoom();
+    }
+    releaseRoom() {
+        while (this.roomWaiters.length > 0 && this.queue.length < this.maxQueued) {
+            this.roomWaiters.shift()();
+        }
+    }
+    spawn() {
+        const entry = { worker: new worker_threads_1.Worker(WORKER_PATH), job: null };
+        entry.worker.on('message', (response) => {
+            const job = entry.job;
+            if (!job || job.request.id !== response.id)
+                return;
+            entry.job = null;
+            entry.worker.unref();
+            if ('error' in response)
+                job.reject(new Error(response.error));
+            else
+                job.resolve(response.stats);
+            this.dispatch();
+        });
+        // A crashed worker fails its job and is replaced on the next dispatch
+        const retire = (error) => {
+            if (!this.workers.includes(entry))
+                return;
+            this.workers = this.workers.filter((other) => other !== entry);
+            entry.job?.reject(error);
+            entry.job = null;
+            this.dispatch();
+        };
+        entry.worker.on('error', retire);
+        entry.worker.on('exit', (code) => retire(new Error(`Parse worker exited with code ${code}`)));
+        this.workers.push(entry);
+        return entry;
+    }
+}
+exports.ParsePool = ParsePool;
@@ -0,0 +1,150 @@
+/**
+ * Parse Pool - Session files parsed off the main process
+ *
+ * Parsing a large sync on the Electron main process stalls the window, so
+ * files are handed to a few worker threads (see parseWorker.ts). Workers
+ * start on first use and take one file at a time; jobs waiting for a free
+ * worker are held in a bounded queue, which callers fill through
+ * waitForRoom() so a sync of thousands of files doesn't queue them all at once.
+ */
+
+import * as os from 'os'
+import * as path from 'path'
+import { Worker } from 'worker_threads'
+import type { ParseCheckpoint, Provider, SessionStats } from './parser'
+
+const WORKER_PATH = path.join(__dirname, 'parseWorker.js')
+
+// Leave a core for the main process and the renderer
+const POOL_SIZE = Math.max(1, Math.min(4, os.cpus().length - 1))
+
+// Jobs waiting for a worker, per worker
+const QUEUE_PER_WORKER = 4
+
+export interface ParseJob {
+  provider: Provider
+  filePath: string
+  checkpoint: ParseCheckpoint | null
+  // Root the file was found under, for Claude project names
+  root: string | null
+  // Catalog the costs are priced with; workers reload theirs when it changed
+  pricingFingerprint: string
+}
+
+export interface ParseRequest extends ParseJob {
+  id: number
+}
+
+export type ParseResponse =
+  | { id: number; stats: SessionStats }
+  | { id: number; error: string }
+
+interface QueuedJob {
+  request: ParseRequest
+  resolve: (stats: SessionStats) => void
+  reject: (error: Error) => void
+}
+
+interface PoolWorker {
+  worker: Worker
+  job: QueuedJob | null
+}
+
+export class ParsePool {
+  private workers: PoolWorker[] = []
+  private queue: QueuedJob[] = []
+  // Callers waiting in waitForRoom()
+  private roomWaiters: Array<() => void> = []
+  private nextId = 1
+
+  constructor(
+    private size: number = POOL_SIZE,
+    private maxQueued: number = POOL_SIZE * QUEUE_PER_WORKER
+  ) {}
+
+  /**
+   * Resolves once the queue has room for another job
+   */
+  waitForRoom(): Promise<void> {
+    if (this.queue.length < this.maxQueued) return Promise.resolve()
+    return new Promise((resolve) => this.roomWaiters.push(resolve))
+  }
+
+  /**
+   * Parse a file on a worker thread
+   */
+  parse(job: ParseJob): Promise<SessionStats> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request: { ...job, id: this.nextId++ }, resolve, reject })
+      this.dispatch()
+    })
+  }
+
+  /**
+   * Stop all workers; queued and running jobs fail
+   */
+  close(): void {
+    const error = new Error('Parse pool closed')
+    for (const { worker, job } of this.workers) {
+      job?.reject(error)
+      worker.terminate()
+    }
+    for (const job of this.queue) {
+      job.reject(error)
+    }
+    this.workers = []
+    this.queue = []
+    this.releaseRoom()
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let idle = this.workers.find((entry) => !entry.job)
+      if (!idle && this.workers.length < this.size) {
+        idle = this.spawn()
+      }
+      if (!idle) break
+
+      idle.job = this.queue.shift()!
+      // Idle workers don't keep the process alive, busy ones do
+      idle.worker.ref()
+      idle.worker.postMessage(idle.job.request)
+    }
+    this.releaseRoom()
+  }
+
+  private releaseRoom(): void {
+    while (this.roomWaiters.length > 0 && this.queue.length < this.maxQueued) {
+      this.roomWaiters.shift()!()
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: new Worker(WORKER_PATH), job: null }
+
+    entry.worker.on('message', (response: ParseResponse) => {
+      const job = entry.job
+      if (!job || job.request.id !== response.id) return
+
+      entry.job = null
+      entry.worker.unref()
+      if ('error' in response) job.reject(new Error(response.error))
+      else job.resolve(response.stats)
+      this.dispatch()
+    })
+
+    // A crashed worker fails its job and is replaced on the next dispatch
+    const retire = (error: Error) => {
+      if (!this.workers.includes(entry)) return
+      this.workers = this.workers.filter((other) => other !== entry)
+      entry.job?.reject(error)
+      entry.job = null
+      this.dispatch()
+    }
+    entry.worker.on('error', retire)
+    entry.worker.on('exit', (code) => retire(new Error(`Parse worker exited with code ${code}`)))
+
+    this.workers.push(entry)
+    return entry
+  }
+}
@@ -0,0 +1,23 @@
+"use strict";
+/**
+ * Parse Worker - Worker thread entry point of the parse pool
+ *
+ * Parses one session file per message with its own SessionParser, which
+ * never opens the database; results go back to the pool in parsePool.ts.
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+const worker_threads_1 = require("worker_threads");
+const parser_1 = require("./parser");
+const parser = new parser_1.SessionParser();
+worker_threads_1.parentPort?.on('message', async (request) => {
+    let response;
+    try {
+        parser.reloadPricing(request.pricingFingerprint);
+        const stats = await parser.parseSessionFile(request.provider, request.filePath, request.checkpoint, request.root);
+        response = { id: request.id, stats };
+    }
+    catch (error) {
+        response = { id: request.id, error: error.message };
+    }
+    worker_threads_1.parentPort?.postMessage(response);
+});
@@ -0,0 +1,24 @@
+/**
+ * Parse Worker - Worker thread entry point of the parse pool
+ *
+ * Parses one session file per message with its own SessionParser, which
+ * never opens the database; results go back to the pool in parsePool.ts.
+ */
+
+import { parentPort } from 'worker_threads'
+import { SessionParser } from './parser'
+import type { ParseRequest, ParseResponse } from './parsePool'
+
+const parser = new SessionParser()
+
+parentPort?.on('message', async (request: ParseRequest) => {
+  let response: ParseResponse
+  try {
+    parser.reloadPricing(request.pricingFingerprint)
+    const stats = await parser.parseSessionFile(request.provider, request.filePath, request.checkpoint, request.root)
+    response = { id: request.id, stats }
+  } catch (error) {
+    response = { id: request.id, error: (error as Error).message }
+  }
+  parentPort?.postMessage(response)
+})
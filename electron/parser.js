@@ -44,42 +44,120 @@ var __importStar = (this && this.__importStar) || (function () {
     };
 })();
 Object.defineProperty(exports, "__esModule", { value: true });
-exports.closeDatabase = exports.SessionParser = exports.PRICING = exports.SESSION_DIRS = void 0;
+exports.closeDatabase = exports.SessionParser = exports.SUMMARY_DAYS = exports.RECENT_WINDOW_HOURS = void 0;
 const fs = __importStar(require("fs"));
 const path = __importStar(require("path"));
-const os = __importStar(require("os"));
-const readline = __importStar(require("readline"));
+const crypto = __importStar(require("crypto"));
 const database_1 = require("./database");
 Object.defineProperty(exports, "closeDatabase", { enumerable: true, get: function () { return database_1.closeDatabase; } });
-// Session directories (following CodMate's conventions)
-exports.SESSION_DIRS = {
-    claude: path.join(os.homedir(), '.claude', 'projects'),
-    codex: path.join(os.homedir(), '.codex', 'sessions'),
-    gemini: path.join(os.homedir(), '.gemini', 'tmp'),
-};
-// Model pricing per 1M tokens (USD)
-exports.PRICING = {
-    // Claude models
-    'claude-sonnet-4-20250514': { input: 3.0, output: 15.0 },
-    'claude-3-5-sonnet-20241022': { input: 3.0, output: 15.0 },
-    'claude-3-5-sonnet-20240620': { input: 3.0, output: 15.0 },
-    'claude-3-opus-20240229': { input: 15.0, output: 75.0 },
-    'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
-    'claude-opus-4-20250514': { input: 15.0, output: 75.0 },
-    // GPT models
-    'gpt-4o': { input: 2.5, output: 10.0 },
-    'gpt-4o-mini': { input: 0.15, output: 0.6 },
-    'gpt-4-turbo': { input: 10.0, output: 30.0 },
-    o1: { input: 15.0, output: 60.0 },
-    'o1-mini': { input: 1.1, output: 4.4 },
-    'o3-mini': { input: 1.1, output: 4.4 },
-    // Gemini models
-    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
-    'gemini-1.5-pro': { input: 1.25, output: 5.0 },
-    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
-    // Default
-    default: { input: 3.0, output: 15.0 },
-};
+const blocks_1 = require("./blocks");
+const weekly_1 = require("./weekly");
+const budgets_1 = require("./budgets");
+const pricing_1 = require("./pricing");
+const transcript_1 = require("./transcript");
+const parsePool_1 = require("./parsePool");
+const roots_1 = require("./roots");
+const accounts_1 = require("./accounts");
+const syncJob_1 = require("./syncJob");
+// Sliding windows summarized in UsageData.byWindow
+exports.RECENT_WINDOW_HOURS = [4, 5, 24];
+// Span of UsageData.recentTotals
+exports.SUMMARY_DAYS = 14;
+// History used to rebuild billing blocks; any 5h idle gap realigns them,
+// so blocks near the cutoff are the only ones that could be misplaced
+const BLOCK_HISTORY_DAYS = 7;
+// Bump whenever parsing output changes so cached sessions get re-parsed
+const PARSER_VERSION = '8';
+// Longest tool input summary kept per call
+const TOOL_SUMMARY_LENGTH = 120;
+// Longest message text added to the search index; pasted logs and files beyond this aren't worth indexing
+const SEARCH_TEXT_LENGTH = 10000;
+// Parsed sessions written per transaction during a sync
+const SYNC_BATCH_SIZE = 50;
+// Bytes hashed at each end of the parsed range of a file to notice rewrites
+const FINGERPRINT_BYTES = 1024;
+function emptyDateStats() {
+    return { sessions: 0, inputTokens: 0, outputTokens: 0, reasoningOutputTokens: 0, costUsd: 0, providers: {} };
+}
+function parseJsonLine(line) {
+    if (!line.trim())
+        return undefined;
+    try {
+        return JSON.parse(line);
+    }
+    catch {
+        return undefined;
+    }
+}
+/**
+ * Parsed JSON lines of a file from `cursor.offset` on. The cursor advances
+ * past every complete line; a last line without a newline is only consumed
+ * once it parses, since it may still be being written.
+ */
+async function* readJsonLines(filePath, cursor) {
+    let buffered = Buffer.alloc(0);
+    for await (const chunk of fs.createReadStream(filePath, { start: cursor.offset })) {
+        buffered = Buffer.concat([buffered, chunk]);
+        let newline;
+        while ((newline = buffered.indexOf(0x0a)) !== -1) {
+            const event = parseJsonLine(buffered.toString('utf8', 0, newline));
+            buffered = buffered.subarray(newline + 1);
+            cursor.offset += newline + 1;
+            if (event !== undefined)
+                yield event;
+        }
+    }
+    const event = parseJsonLine(buffered.toString('utf8'));
+    if (event !== undefined) {
+        cursor.offset += buffered.length;
+        yield event;
+    }
+}
+/**
+ * Hash of the first and last FINGERPRINT_BYTES of a file's first `offset` bytes
+ */
+function parsedRangeFingerprint(filePath, offset) {
+    const length = Math.min(FINGERPRINT_BYTES, offset);
+    const head = Buffer.alloc(length);
+    const tail = Buffer.alloc(length);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        fs.readSync(fd, head, 0, length, 0);
+        fs.readSync(fd, tail, 0, length, offset - length);
+    }
+    finally {
+        fs.closeSync(fd);
+    }
+    return crypto.createHash('sha1').update(head).update(tail).digest('hex');
+}
+/**
+ * Summarize a tool call input, preferring the field that identifies what it acted on
+ */
+function summarizeToolInput(input) {
+    let summary = '';
+    if (typeof input === 'string') {
+        // Codex passes function arguments as a JSON string
+        try {
+            return summarizeToolInput(JSON.parse(input));
+        }
+        catch {
+            summary = input;
+        }
+    }
+    else if (Array.isArray(input)) {
+        summary = input.join(' ');
+    }
+    else if (input && typeof input === 'object') {
+        const fields = input;
+        const key = ['command', 'cmd', 'file_path', 'path', 'pattern', 'url', 'query', 'description', 'prompt']
+            .find(k => fields[k] !== undefined && fields[k] !== '');
+        summary = key
+            ? (Array.isArray(fields[key]) ? fields[key].join(' ') : String(fields[key]))
+            : JSON.stringify(input);
+    }
+    summary = summary.replace(/\s+/g, ' ').trim();
+    return summary.length > TOOL_SUMMARY_LENGTH ? `${summary.slice(0, TOOL_SUMMARY_LENGTH - 1)}…` : summary;
+}
 class SessionParser {
     constructor() {
         this.cache = new Map();
@@ -87,25 +165,53 @@ class SessionParser {
         this.lastSyncTime = 0;
         this.syncInterval = 5000; // 5 seconds minimum between syncs
         this.dbInitPromise = null;
-        // Initialize database asynchronously
-        this.dbInitPromise = this.initDb();
+        this.syncListeners = [];
+        // Tail of the queue of running syncs, see exclusive()
+        this.syncLock = Promise.resolve();
+        this.pricing = pricing_1.PricingCatalog.load();
+        this.pool = new parsePool_1.ParsePool();
+        // Detected roots until the database is open and the configured ones are known
+        this.roots = (0, roots_1.resolveSessionRoots)((0, roots_1.parseSessionRootConfig)(''));
+        this.accountConfig = (0, accounts_1.parseAccountConfig)('');
+        this.statusListeners = [];
+        // Running full sync; calls to syncAll() meanwhile wait for it instead of starting another
+        this.job = null;
+        this.jobPromise = null;
     }
     async initDb() {
         this.db = await (0, database_1.getDatabase)();
+        this.roots = (0, roots_1.resolveSessionRoots)((0, roots_1.parseSessionRootConfig)(this.db.getSetting(roots_1.SESSION_ROOTS_SETTING)));
+        this.accountConfig = (0, accounts_1.parseAccountConfig)(this.db.getSetting(accounts_1.ACCOUNTS_SETTING));
+        // Cached rows from an older parser lack data the current one produces
+        if (this.db.getSetting('parserVersion') !== PARSER_VERSION) {
+            console.log(`[DB] Parser version changed to ${PARSER_VERSION}, clearing cached sessions`);
+            this.db.clearAll();
+            this.db.saveSetting('parserVersion', PARSER_VERSION);
+        }
+        // Stored costs were computed with different rates
+        if (this.db.getSetting('pricingFingerprint') !== this.pricing.fingerprint) {
+            console.log('[DB] Pricing catalog changed, clearing cached sessions');
+            this.db.clearAll();
+            this.db.saveSetting('pricingFingerprint', this.pricing.fingerprint);
+        }
     }
     async ensureDb() {
-        if (this.dbInitPromise) {
-            await this.dbInitPromise;
-            this.dbInitPromise = null;
-        }
-        if (!this.db) {
-            this.db = await (0, database_1.getDatabase)();
+        // Opened on first use, so parsers on parse workers never touch the database
+        if (!this.dbInitPromise) {
+            this.dbInitPromise = this.initDb();
         }
+        await this.dbInitPromise;
         return this.db;
     }
     clearCache() {
         this.cache.clear();
     }
+    /**
+     * Stop the parse workers
+     */
+    close() {
+        this.pool.close();
+    }
     /**
      * Get database statistics
      */
@@ -114,43 +220,218 @@ class SessionParser {
         return db.getStats();
     }
     /**
-     * Get pricing for a model
+     * Get pricing for a model at the time an event happened
+     */
+    getModelPricing(model, timestamp = null) {
+        return this.pricing.getPricing(model, timestamp);
+    }
+    /**
+     * Bundled rates merged with the user's overrides
+     */
+    getPricingCatalog() {
+        return this.pricing.getData();
+    }
+    /**
+     * Save pricing overrides and re-price every session if the rates changed
+     */
+    async savePricingOverrides(overrides) {
+        const db = await this.ensureDb();
+        pricing_1.PricingCatalog.saveOverrides(overrides);
+        this.pricing = pricing_1.PricingCatalog.load();
+        if (db.getSetting('pricingFingerprint') !== this.pricing.fingerprint) {
+            db.saveSetting('pricingFingerprint', this.pricing.fingerprint);
+            await this.forceRebuild();
+        }
+    }
+    /**
+     * Session roots of every provider, detected and configured
+     */
+    async getSessionRoots() {
+        await this.ensureDb();
+        return this.roots;
+    }
+    /**
+     * Check a directory as a session root: whether it can be read and how many session files are below it
+     */
+    async inspectSessionRoot(provider, rootPath, detectedFrom = null) {
+        const expanded = (0, roots_1.expandRootPath)(rootPath);
+        const error = (0, roots_1.checkRootPath)(expanded);
+        const sessionFiles = error ? 0 : (await this.findSessionFiles(expanded)).length;
+        return { provider, path: expanded, detectedFrom, error, sessionFiles };
+    }
+    /**
+     * Every root with its check results
+     */
+    async inspectSessionRoots() {
+        const roots = await this.getSessionRoots();
+        const infos = [];
+        for (const provider of Object.keys(roots)) {
+            for (const root of roots[provider]) {
+                infos.push(await this.inspectSessionRoot(provider, root.path, root.detectedFrom));
+            }
+        }
+        return infos;
+    }
+    /**
+     * Save the roots added in Settings. Sessions under roots that were removed
+     * get archived by the next sync, like deleted files.
+     */
+    async saveSessionRoots(config) {
+        const db = await this.ensureDb();
+        const normalized = (0, roots_1.parseSessionRootConfig)(JSON.stringify(config));
+        for (const provider of Object.keys(normalized)) {
+            normalized[provider] = [...new Set(normalized[provider].map(roots_1.expandRootPath))];
+        }
+        db.saveSetting(roots_1.SESSION_ROOTS_SETTING, JSON.stringify(normalized));
+        this.roots = (0, roots_1.resolveSessionRoots)(normalized);
+        this.cache.clear();
+        return this.roots;
+    }
+    /**
+     * Save whether sessions of deleted files are kept; turning it off purges
+     * the ones archived so far right away
+     */
+    async saveKeepDeletedSessions(keep) {
+        const db = await this.ensureDb();
+        db.saveSetting(database_1.KEEP_DELETED_SESSIONS_SETTING, String(keep));
+        if (keep)
+            return;
+        await this.exclusive(async () => {
+            for (const provider of ['claude', 'codex', 'gemini']) {
+                db.purgeArchivedSessions(provider);
+            }
+        });
+        this.cache.clear();
+    }
+    /**
+     * Every account, with the roots assigned to them
+     */
+    async getAccountConfig() {
+        await this.ensureDb();
+        return { accounts: (0, accounts_1.resolveAccounts)(this.accountConfig), rootAccounts: this.accountConfig.rootAccounts };
+    }
+    /**
+     * Save accounts and root assignments, and move stored sessions to the
+     * account their root now belongs to
      */
-    getModelPricing(model) {
-        if (!model)
-            return exports.PRICING['default'];
-        // Try exact match
-        if (exports.PRICING[model])
-            return exports.PRICING[model];
-        // Try prefix match
-        for (const key of Object.keys(exports.PRICING)) {
-            if (model.startsWith(key) || model.includes(key)) {
-                return exports.PRICING[key];
+    async saveAccounts(config) {
+        const db = await this.ensureDb();
+        const normalized = (0, accounts_1.parseAccountConfig)(JSON.stringify((0, accounts_1.assignAccountIds)(config)));
+        db.saveSetting(accounts_1.ACCOUNTS_SETTING, JSON.stringify(normalized));
+        this.accountConfig = normalized;
+        await this.exclusive(async () => {
+            const accountIds = (0, accounts_1.resolveAccounts)(normalized).map((account) => account.id);
+            for (const provider of Object.keys(this.roots)) {
+                const roots = this.roots[provider].map((root) => ({ path: root.path, account: this.accountOf(provider, root.path) }));
+                db.reassignAccounts(provider, roots, accountIds);
             }
+        });
+        this.cache.clear();
+        return this.getAccountConfig();
+    }
+    /**
+     * Account of the sessions under a root
+     */
+    accountOf(provider, rootPath) {
+        return (0, accounts_1.accountForRoot)(this.accountConfig, provider, rootPath);
+    }
+    /**
+     * Re-read the pricing catalog unless it's already the one with this fingerprint
+     */
+    reloadPricing(fingerprint) {
+        if (this.pricing.fingerprint !== fingerprint) {
+            this.pricing = pricing_1.PricingCatalog.load();
+        }
+    }
+    /**
+     * Calculate cost for token usage, including cache reads and writes
+     */
+    calculateCost(usage, model, timestamp = null) {
+        const pricing = this.getModelPricing(model, timestamp);
+        const cacheCreation1h = usage.cacheCreation1hTokens || 0;
+        const cacheCreation5m = Math.max(0, (usage.cacheCreationTokens || 0) - cacheCreation1h);
+        const inputCost = (usage.inputTokens / 1000000) * pricing.input;
+        const outputCost = (usage.outputTokens / 1000000) * pricing.output;
+        const cacheReadCost = ((usage.cacheReadTokens || 0) / 1000000) * pricing.cacheRead;
+        const cacheWriteCost = (cacheCreation5m / 1000000) * pricing.cacheWrite5m +
+            (cacheCreation1h / 1000000) * pricing.cacheWrite1h;
+        return inputCost + outputCost + cacheReadCost + cacheWriteCost;
+    }
+    /**
+     * Keep the prompt and response text of transcript entries for the search index
+     */
+    addSearchableMessages(stats, entries) {
+        for (const entry of entries) {
+            if (entry.kind !== 'user' && entry.kind !== 'assistant')
+                continue;
+            stats.searchableMessages.push({
+                role: entry.kind,
+                timestamp: this.normalizeTimestamp(entry.timestamp),
+                text: entry.text.slice(0, SEARCH_TEXT_LENGTH),
+            });
         }
-        // Determine by model family
-        if (model.includes('opus'))
-            return exports.PRICING['claude-3-opus-20240229'];
-        if (model.includes('sonnet'))
-            return exports.PRICING['claude-3-5-sonnet-20241022'];
-        if (model.includes('haiku'))
-            return exports.PRICING['claude-3-haiku-20240307'];
-        if (model.includes('gpt-4o-mini'))
-            return exports.PRICING['gpt-4o-mini'];
-        if (model.includes('gpt-4o'))
-            return exports.PRICING['gpt-4o'];
-        if (model.includes('gemini'))
-            return exports.PRICING['gemini-2.0-flash'];
-        return exports.PRICING['default'];
     }
     /**
-     * Calculate cost for token usage
+     * Normalize a raw event timestamp to an ISO string (UTC)
+     */
+    normalizeTimestamp(value) {
+        if (typeof value !== 'string' && typeof value !== 'number')
+            return null;
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    /**
+     * Derive session totals and the per-model breakdown from its usage events.
+     * A resumed parse adds its new events onto the checkpoint's totals.
      */
-    calculateCost(inputTokens, outputTokens, model) {
-        const pricing = this.getModelPricing(model);
-        const inputCost = (inputTokens / 1000000) * pricing.input;
-        const outputCost = (outputTokens / 1000000) * pricing.output;
-        return inputCost + outputCost;
+    applyEventTotals(stats) {
+        const models = {};
+        if (stats.appended) {
+            for (const [model, usage] of Object.entries(stats.models || {})) {
+                models[model] = { ...usage };
+            }
+        }
+        for (const event of stats.events || []) {
+            const model = event.model || 'unknown';
+            if (!models[model]) {
+                models[model] = { turns: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0 };
+            }
+            models[model].turns++;
+            models[model].inputTokens += event.inputTokens;
+            models[model].outputTokens += event.outputTokens;
+            models[model].cacheReadTokens += event.cacheReadTokens;
+            models[model].cacheCreationTokens += event.cacheCreationTokens;
+            models[model].costUsd += event.costUsd;
+        }
+        stats.models = models;
+        stats.inputTokens = 0;
+        stats.outputTokens = 0;
+        stats.cacheReadTokens = 0;
+        stats.cacheCreationTokens = 0;
+        stats.cachedInputTokens = stats.appended ? stats.cachedInputTokens || 0 : 0;
+        stats.reasoningOutputTokens = stats.appended ? stats.reasoningOutputTokens || 0 : 0;
+        stats.costUsd = this.calculateSessionCost(models);
+        for (const event of stats.events || []) {
+            stats.cachedInputTokens += event.cachedInputTokens;
+            stats.reasoningOutputTokens += event.reasoningOutputTokens;
+        }
+        let primaryCost = -1;
+        for (const [model, usage] of Object.entries(models)) {
+            stats.inputTokens += usage.inputTokens;
+            stats.outputTokens += usage.outputTokens;
+            stats.cacheReadTokens += usage.cacheReadTokens;
+            stats.cacheCreationTokens += usage.cacheCreationTokens;
+            if (usage.costUsd > primaryCost) {
+                primaryCost = usage.costUsd;
+                stats.model = model;
+            }
+        }
+    }
+    /**
+     * Total cost of a session from its per-model breakdown
+     */
+    calculateSessionCost(models) {
+        return Object.values(models).reduce((sum, usage) => sum + usage.costUsd, 0);
     }
     /**
      * Find all session files in a directory
@@ -226,11 +507,49 @@ class SessionParser {
         return parts[parts.length - 1] || 'Unknown';
     }
     /**
-     * Parse a Claude Code JSONL session file
+     * Session stats to continue parsing from a checkpoint
      */
-    async parseClaudeSession(filePath) {
-        const projectName = this.extractClaudeProjectName(filePath, exports.SESSION_DIRS.claude);
-        const stats = {
+    resumeStats(checkpoint) {
+        return {
+            ...checkpoint.totals,
+            model: checkpoint.currentModel,
+            events: [],
+            searchableMessages: [],
+            appended: true,
+        };
+    }
+    /**
+     * Checkpoint of a session whose totals cover its first `offset` bytes
+     */
+    makeCheckpoint(stats, filePath, offset, currentModel, extra) {
+        const { events, rateLimits, searchableMessages, archived, checkpoint, appended, ...totals } = stats;
+        return {
+            offset,
+            fingerprint: parsedRangeFingerprint(filePath, offset),
+            totals,
+            currentModel,
+            ...extra,
+        };
+    }
+    /**
+     * Whether the bytes a checkpoint covers are still unchanged, so the file only grew
+     */
+    canResume(filePath, checkpoint) {
+        try {
+            return fs.statSync(filePath).size >= checkpoint.offset &&
+                parsedRangeFingerprint(filePath, checkpoint.offset) === checkpoint.fingerprint;
+        }
+        catch {
+            return false;
+        }
+    }
+    /**
+     * Parse a Claude Code JSONL session file, or only its lines after `resume`
+     */
+    async parseClaudeSession(filePath, resume = null, root = null) {
+        // Files sit at {root}/{encoded-project-path}/{session-id}.jsonl
+        const projectName = this.extractClaudeProjectName(filePath, root ?? path.dirname(path.dirname(filePath)));
+        const stats = resume ? this.resumeStats(resume) : {
             path: filePath,
             provider: 'claude',
             sessionId: path.basename(path.dirname(filePath)),
@@ -243,24 +562,27 @@ class SessionParser {
             outputTokens: 0,
             cacheReadTokens: 0,
             cacheCreationTokens: 0,
+            duplicateEvents: 0,
             costUsd: 0,
             model: null,
             firstMessage: null,
             lastMessage: null,
             duration: 0,
+            events: [],
+            searchableMessages: [],
         };
+        // Claude Code writes one line per content block, each repeating the
+        // response's usage, so only the first line per message/request counts.
+        // Responses counted before a checkpoint map to null.
+        const seenResponses = new Map(resume?.responseKeys?.map(key => [key, null]));
+        // Tool names by call id, shared with the transcript extractor across lines
+        const toolNames = new Map();
+        const cursor = { offset: resume?.offset || 0 };
         try {
-            const fileStream = fs.createReadStream(filePath);
-            const rl = readline.createInterface({
-                input: fileStream,
-                crlfDelay: Infinity,
-            });
-            for await (const line of rl) {
-                if (!line.trim())
-                    continue;
+            for await (const event of readJsonLines(filePath, cursor)) {
                 try {
-                    const event = JSON.parse(line);
                     stats.messages++;
+                    this.addSearchableMessages(stats, (0, transcript_1.claudeEventEntries)(event, toolNames));
                     // Track message types
                     const eventType = event.type || '';
                     const messageRole = event.message?.role || event.role || '';
@@ -276,19 +598,6 @@ class SessionParser {
                             event.message.content.some((c) => c.type === 'tool_use'))) {
                         stats.toolUses++;
                     }
-                    // Extract token usage
-                    const usage = event.message?.usage || event.usage || {};
-                    if (usage.input_tokens)
-                        stats.inputTokens += usage.input_tokens;
-                    if (usage.output_tokens)
-                        stats.outputTokens += usage.output_tokens;
-                    if (usage.cache_read_input_tokens)
-                        stats.cacheReadTokens += usage.cache_read_input_tokens;
-                    if (usage.cache_creation_input_tokens)
-                        stats.cacheCreationTokens += usage.cache_creation_input_tokens;
-                    // Track cost if available
-                    if (event.costUsd)
-                        stats.costUsd += event.costUsd;
                     // Track timestamps
                     const timestamp = event.timestamp || event.ts;
                     if (timestamp) {
@@ -300,21 +609,75 @@ class SessionParser {
                     const model = event.message?.model || event.model;
                     if (model)
                         stats.model = model;
+                    const toolCalls = Array.isArray(event.message?.content)
+                        ? event.message.content
+                            .filter((c) => c.type === 'tool_use')
+                            .map((c) => ({ name: c.name || 'tool', summary: summarizeToolInput(c.input) }))
+                        : [];
+                    // Record one usage event per assistant turn
+                    const usage = event.message?.usage || event.usage || {};
+                    const inputTokens = usage.input_tokens || 0;
+                    const outputTokens = usage.output_tokens || 0;
+                    const cacheReadTokens = usage.cache_read_input_tokens || 0;
+                    const cacheCreationTokens = usage.cache_creation_input_tokens || 0;
+                    // Newer logs split cache writes by TTL; older ones imply the 5-minute tier
+                    const cacheCreation1hTokens = usage.cache_creation?.ephemeral_1h_input_tokens || 0;
+                    if (inputTokens || outputTokens || cacheReadTokens || cacheCreationTokens) {
+                        const messageId = event.message?.id;
+                        if (messageId) {
+                            const responseKey = `${messageId}:${event.requestId || ''}`;
+                            if (seenResponses.has(responseKey)) {
+                                // Later content blocks of the same response may hold its tool calls
+                                seenResponses.get(responseKey)?.toolCalls.push(...toolCalls);
+                                stats.duplicateEvents++;
+                                continue;
+                            }
+                        }
+                        const eventModel = model || stats.model;
+                        const tokens = {
+                            inputTokens,
+                            outputTokens,
+                            cacheReadTokens,
+                            cacheCreationTokens,
+                            cacheCreation1hTokens,
+                        };
+                        const eventTimestamp = this.normalizeTimestamp(timestamp);
+                        const usageEvent = {
+                            timestamp: eventTimestamp,
+                            model: eventModel,
+                            inputTokens,
+                            outputTokens,
+                            cacheReadTokens,
+                            cacheCreationTokens,
+                            cacheCreation1hTokens,
+                            cachedInputTokens: 0,
+                            reasoningOutputTokens: 0,
+                            // Prefer the cost recorded by the CLI when present
+                            costUsd: event.costUsd || this.calculateCost(tokens, eventModel, eventTimestamp),
+                            toolCalls,
+                        };
+                        stats.events.push(usageEvent);
+                        if (messageId) {
+                            seenResponses.set(`${messageId}:${event.requestId || ''}`, usageEvent);
+                        }
+                    }
                 }
                 catch {
-                    // Skip invalid JSON lines
+                    // Skip lines with an unexpected shape
                 }
             }
-            // Calculate cost if not provided
-            if (stats.costUsd === 0 && (stats.inputTokens > 0 || stats.outputTokens > 0)) {
-                stats.costUsd = this.calculateCost(stats.inputTokens, stats.outputTokens, stats.model);
-            }
+            // Model applied to the next turns, before totals replace it with the primary one
+            const currentModel = stats.model;
+            this.applyEventTotals(stats);
             // Calculate duration
             if (stats.firstMessage && stats.lastMessage) {
                 const start = new Date(stats.firstMessage).getTime();
                 const end = new Date(stats.lastMessage).getTime();
                 stats.duration = Math.max(0, end - start);
             }
+            stats.checkpoint = this.makeCheckpoint(stats, filePath, cursor.offset, currentModel, {
+                responseKeys: [...seenResponses.keys()],
+            });
         }
         catch (e) {
             console.error(`Error parsing ${filePath}:`, e.message);
@@ -322,10 +685,30 @@ class SessionParser {
         return stats;
     }
     /**
-     * Parse a Codex session file
+     * Parse one rate limit window from a Codex token_count event.
+     * Older CLIs report resets_in_seconds, newer ones an absolute resets_at (epoch seconds).
      */
-    async parseCodexSession(filePath) {
-        const stats = {
+    parseRateLimitWindow(raw, timestamp) {
+        if (!raw || typeof raw.used_percent !== 'number')
+            return null;
+        let resetsAt = null;
+        if (typeof raw.resets_at === 'number') {
+            resetsAt = new Date(raw.resets_at * 1000).toISOString();
+        }
+        else if (typeof raw.resets_in_seconds === 'number') {
+            resetsAt = new Date(new Date(timestamp).getTime() + raw.resets_in_seconds * 1000).toISOString();
+        }
+        return {
+            usedPercent: raw.used_percent,
+            windowMinutes: raw.window_minutes || 0,
+            resetsAt,
+        };
+    }
+    /**
+     * Parse a Codex session file; JSONL files can resume after a checkpoint
+     */
+    async parseCodexSession(filePath, resume = null) {
+        const stats = resume ? this.resumeStats(resume) : {
             path: filePath,
             provider: 'codex',
             sessionId: path.basename(filePath, path.extname(filePath)),
@@ -341,17 +724,20 @@ class SessionParser {
             firstMessage: null,
             lastMessage: null,
             duration: 0,
+            events: [],
+            searchableMessages: [],
         };
         try {
-            const content = fs.readFileSync(filePath, 'utf-8');
             if (filePath.endsWith('.jsonl')) {
-                const lines = content.split('\n').filter((l) => l.trim());
-                let lastTotalInput = 0;
-                let lastTotalOutput = 0;
-                for (const line of lines) {
+                let lastTotals = resume?.lastTotals || { input: 0, cachedInput: 0, output: 0, reasoningOutput: 0 };
+                // Tool calls since the last token_count belong to the turn it reports
+                let pendingToolCalls = [];
+                const toolNames = new Map();
+                const cursor = { offset: resume?.offset || 0 };
+                for await (const event of readJsonLines(filePath, cursor)) {
                     try {
-                        const event = JSON.parse(line);
                         stats.messages++;
+                        this.addSearchableMessages(stats, (0, transcript_1.codexEventEntries)(event, toolNames));
                         // Extract project from session_meta cwd
                         if (event.type === 'session_meta' && event.payload?.cwd) {
                             stats.project = this.extractProjectFromPath(event.payload.cwd);
@@ -364,18 +750,68 @@ class SessionParser {
                             else if (payload.role === 'assistant')
                                 stats.assistantMessages++;
                         }
+                        if (event.type === 'response_item') {
+                            if (payload?.type === 'function_call' || payload?.type === 'custom_tool_call') {
+                                pendingToolCalls.push({ name: payload.name || 'tool', summary: summarizeToolInput(payload.arguments ?? payload.input) });
+                            }
+                            else if (payload?.type === 'local_shell_call') {
+                                pendingToolCalls.push({ name: 'shell', summary: summarizeToolInput(payload.action?.command) });
+                            }
+                        }
                         // Check for event_msg types
                         if (event.type === 'event_msg' && payload) {
                             if (payload.type === 'user_message')
                                 stats.userMessages++;
                             else if (payload.type === 'agent_message')
                                 stats.assistantMessages++;
+                            // Plan rate limits ride along on token_count events; keep the latest
+                            const timestamp = this.normalizeTimestamp(event.timestamp);
+                            if (payload.type === 'token_count' && payload.rate_limits && timestamp) {
+                                const primary = this.parseRateLimitWindow(payload.rate_limits.primary, timestamp);
+                                const secondary = this.parseRateLimitWindow(payload.rate_limits.secondary, timestamp);
+                                if (primary || secondary) {
+                                    stats.rateLimits = { timestamp, primary, secondary };
+                                }
+                            }
                             // Token usage from token_count event
                             if (payload.type === 'token_count' && payload.info?.total_token_usage) {
                                 const usage = payload.info.total_token_usage;
-                                // total_token_usage is cumulative, so we track the latest
-                                lastTotalInput = usage.input_tokens || 0;
-                                lastTotalOutput = usage.output_tokens || 0;
+                                const totals = {
+                                    input: usage.input_tokens || 0,
+                                    cachedInput: usage.cached_input_tokens || 0,
+                                    output: usage.output_tokens || 0,
+                                    reasoningOutput: usage.reasoning_output_tokens || 0,
+                                };
+                                // total_token_usage is cumulative, so each turn is the delta
+                                // from the previous snapshot (a drop means the counter reset)
+                                const reset = totals.input < lastTotals.input || totals.output < lastTotals.output;
+                                const previous = reset ? { input: 0, cachedInput: 0, output: 0, reasoningOutput: 0 } : lastTotals;
+                                const inputTokens = totals.input - previous.input;
+                                const cachedInputTokens = Math.max(0, totals.cachedInput - previous.cachedInput);
+                                const outputTokens = totals.output - previous.output;
+                                const reasoningOutputTokens = Math.max(0, totals.reasoningOutput - previous.reasoningOutput);
+                                lastTotals = totals;
+                                if (inputTokens > 0 || outputTokens > 0) {
+                                    stats.events.push({
+                                        timestamp,
+                                        model: stats.model,
+                                        inputTokens,
+                                        outputTokens,
+                                        cacheReadTokens: 0,
+                                        cacheCreationTokens: 0,
+                                        cacheCreation1hTokens: 0,
+                                        cachedInputTokens,
+                                        reasoningOutputTokens,
+                                        // Cached input is part of input_tokens but billed at the cache read rate
+                                        costUsd: this.calculateCost({
+                                            inputTokens: Math.max(0, inputTokens - cachedInputTokens),
+                                            cacheReadTokens: cachedInputTokens,
+                                            outputTokens,
+                                        }, stats.model, timestamp),
+                                        toolCalls: pendingToolCalls,
+                                    });
+                                    pendingToolCalls = [];
+                                }
                             }
                         }
                         // Model from turn_context
@@ -390,15 +826,16 @@ class SessionParser {
                         }
                     }
                     catch {
-                        // Skip invalid lines
+                        // Skip lines with an unexpected shape
                     }
                 }
-                // Use the final cumulative token counts
-                stats.inputTokens = lastTotalInput;
-                stats.outputTokens = lastTotalOutput;
+                // Model applied to the next turns, before totals replace it with the primary one
+                const currentModel = stats.model;
+                this.applyEventTotals(stats);
+                stats.checkpoint = this.makeCheckpoint(stats, filePath, cursor.offset, currentModel, { lastTotals });
             }
             else {
-                const data = JSON.parse(content);
+                const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
                 if (Array.isArray(data)) {
                     stats.messages = data.length;
                     for (const msg of data) {
@@ -409,9 +846,6 @@ class SessionParser {
                     }
                 }
             }
-            if (stats.inputTokens > 0 || stats.outputTokens > 0) {
-                stats.costUsd = this.calculateCost(stats.inputTokens, stats.outputTokens, stats.model);
-            }
         }
         catch (e) {
             console.error(`Error parsing ${filePath}:`, e.message);
@@ -436,6 +870,7 @@ class SessionParser {
             firstMessage: null,
             lastMessage: null,
             duration: 0,
+            events: [],
         };
         try {
             const content = fs.readFileSync(filePath, 'utf-8');
@@ -448,20 +883,37 @@ class SessionParser {
                         stats.userMessages++;
                     else if (event.role === 'model')
                         stats.assistantMessages++;
-                    if (event.usageMetadata) {
-                        stats.inputTokens += event.usageMetadata.promptTokenCount || 0;
-                        stats.outputTokens += event.usageMetadata.candidatesTokenCount || 0;
-                    }
                     if (event.model)
                         stats.model = event.model;
+                    const timestamp = event.timestamp || event.createTime;
+                    if (timestamp) {
+                        if (!stats.firstMessage)
+                            stats.firstMessage = timestamp;
+                        stats.lastMessage = timestamp;
+                    }
+                    if (event.usageMetadata) {
+                        const inputTokens = event.usageMetadata.promptTokenCount || 0;
+                        const outputTokens = event.usageMetadata.candidatesTokenCount || 0;
+                        const eventTimestamp = this.normalizeTimestamp(timestamp);
+                        stats.events.push({
+                            timestamp: eventTimestamp,
+                            model: stats.model,
+                            inputTokens,
+                            outputTokens,
+                            cacheReadTokens: 0,
+                            cacheCreationTokens: 0,
+                            cacheCreation1hTokens: 0,
+                            cachedInputTokens: 0,
+                            reasoningOutputTokens: 0,
+                            costUsd: this.calculateCost({ inputTokens, outputTokens }, stats.model, eventTimestamp),
+                        });
+                    }
                 }
                 catch {
                     // Skip invalid lines
                 }
             }
-            if (stats.inputTokens > 0 || stats.outputTokens > 0) {
-                stats.costUsd = this.calculateCost(stats.inputTokens, stats.outputTokens, stats.model);
-            }
+            this.applyEventTotals(stats);
         }
         catch (e) {
             console.error(`Error parsing ${filePath}:`, e.message);
@@ -469,73 +921,303 @@ class SessionParser {
         return stats;
     }
     /**
-     * Sync sessions from files to database (incremental update)
+     * Parse a session file with the provider's parser
+     */
+    async parseSessionFile(provider, filePath, checkpoint = null, root = null) {
+        // Lines after a checkpoint are parsed alone only if the file just grew;
+        // truncated or rewritten files are parsed in full
+        const resume = checkpoint && this.canResume(filePath, checkpoint) ? checkpoint : null;
+        switch (provider) {
+            case 'claude':
+                return this.parseClaudeSession(filePath, resume, root);
+            case 'codex':
+                return this.parseCodexSession(filePath, resume);
+            case 'gemini':
+                return this.parseGeminiSession(filePath);
+        }
+    }
+    /**
+     * Re-parse a tracked session file into its turn-by-turn timeline
      */
-    async syncProvider(provider) {
+    async getSessionDetail(filePath) {
         const db = await this.ensureDb();
-        const baseDir = exports.SESSION_DIRS[provider];
-        if (!baseDir || !fs.existsSync(baseDir)) {
-            return { added: 0, updated: 0, deleted: 0 };
+        // Only indexed sessions, so the renderer can't read arbitrary paths
+        const stored = db.getSession(filePath);
+        if (!stored) {
+            throw new Error('Session not found');
+        }
+        if (stored.archived) {
+            throw new Error('The source file of this session was deleted; only its totals are kept');
         }
-        const files = await this.findSessionFiles(baseDir);
-        const existingFiles = new Set(files);
+        // The search text isn't needed by the view, so it stays out of the IPC payload
+        const { events = [], searchableMessages, checkpoint, appended, ...session } = await this.parseSessionFile(stored.provider, filePath, null, (0, roots_1.rootOf)(this.roots[stored.provider], filePath));
+        let cumulativeCostUsd = 0;
+        const turns = events.map((event, index) => {
+            cumulativeCostUsd += event.costUsd;
+            return {
+                index: index + 1,
+                timestamp: event.timestamp,
+                model: event.model,
+                inputTokens: event.inputTokens,
+                outputTokens: event.outputTokens,
+                cacheReadTokens: event.cacheReadTokens,
+                cacheCreationTokens: event.cacheCreationTokens,
+                cachedInputTokens: event.cachedInputTokens,
+                reasoningOutputTokens: event.reasoningOutputTokens,
+                // Codex input already includes its cached part; Claude reports cache reads/writes separately
+                contextTokens: event.inputTokens + event.cacheReadTokens + event.cacheCreationTokens,
+                costUsd: event.costUsd,
+                cumulativeCostUsd,
+                toolCalls: event.toolCalls || [],
+            };
+        });
+        return { session, turns };
+    }
+    /**
+     * Parse the given files of a provider where they changed since their last
+     * parse, and store the results
+     */
+    async syncFiles(db, provider, files, job = null) {
         let added = 0;
         let updated = 0;
-        // Process each file
+        // Parsed sessions are written in batches, one transaction each
+        let pending = [];
+        const flush = () => {
+            const batch = pending;
+            pending = [];
+            db.transaction(() => {
+                for (const { session, mtime, size } of batch) {
+                    if (db.getFileRecord(session.path))
+                        updated++;
+                    else
+                        added++;
+                    db.upsertSession(session);
+                    db.upsertFileRecord(session.path, provider, mtime, size, session.checkpoint || null);
+                }
+            });
+        };
+        // Files are parsed on the pool while the loop goes on to the next ones
+        let done = 0;
+        const fileDone = () => job?.setProgress(provider, ++done, files.length);
+        const parses = [];
+        job?.setState('parsing', provider);
+        job?.setProgress(provider, 0, files.length);
         for (const filePath of files) {
+            // Files already handed to the pool still finish and get stored
+            if (job?.cancelled)
+                break;
             try {
                 const stat = fs.statSync(filePath);
                 const mtime = stat.mtime.getTime();
                 const size = stat.size;
                 // Check if file needs parsing
                 if (db.needsUpdate(filePath, mtime, size)) {
-                    let session;
-                    switch (provider) {
-                        case 'claude':
-                            session = await this.parseClaudeSession(filePath);
-                            break;
-                        case 'codex':
-                            session = await this.parseCodexSession(filePath);
-                            break;
-                        case 'gemini':
-                            session = await this.parseGeminiSession(filePath);
-                            break;
-                        default:
-                            continue;
-                    }
-                    if (session.messages > 0) {
-                        const isNew = !db.getFileRecord(filePath);
-                        db.upsertSession(session);
-                        db.upsertFileRecord(filePath, provider, mtime, size);
-                        if (isNew)
-                            added++;
-                        else
-                            updated++;
-                    }
+                    const checkpoint = db.getFileRecord(filePath)?.checkpoint || null;
+                    const root = (0, roots_1.rootOf)(this.roots[provider], filePath);
+                    await this.pool.waitForRoom();
+                    const parse = this.pool.parse({
+                        provider,
+                        filePath,
+                        checkpoint,
+                        root,
+                        pricingFingerprint: this.pricing.fingerprint,
+                    });
+                    parses.push(parse
+                        .then((session) => {
+                        if (session.messages > 0) {
+                            session.account = this.accountOf(provider, root);
+                            pending.push({ session, mtime, size });
+                            if (pending.length >= SYNC_BATCH_SIZE)
+                                flush();
+                        }
+                    })
+                        .catch((e) => console.error(`Error processing ${filePath}:`, e.message))
+                        .finally(fileDone));
+                    continue;
                 }
             }
             catch (e) {
                 console.error(`Error processing ${filePath}:`, e.message);
             }
+            fileDone();
         }
-        // Cleanup deleted files
-        const deleted = db.cleanupDeletedFiles(provider, existingFiles);
-        return { added, updated, deleted };
+        await Promise.all(parses);
+        job?.setState('writing', provider);
+        if (pending.length > 0)
+            flush();
+        return { added, updated };
     }
     /**
-     * Sync all providers
+     * Archive (or purge, if history isn't kept) tracked sessions whose files aren't in `existingFiles`
+     */
+    archiveDeletedFiles(db, provider, existingFiles) {
+        return db.cleanupDeletedFiles(provider, existingFiles, !this.keepsDeletedSessions(db));
+    }
+    keepsDeletedSessions(db) {
+        return db.getSetting(database_1.KEEP_DELETED_SESSIONS_SETTING, 'true') !== 'false';
+    }
+    /**
+     * Run syncs one at a time: two parses resuming from the same checkpoint
+     * would store the appended lines twice
+     */
+    exclusive(task) {
+        const run = this.syncLock.then(task);
+        this.syncLock = run.then(() => undefined, () => undefined);
+        return run;
+    }
+    /**
+     * Sync sessions from files to database (incremental update)
      */
-    async syncAll() {
-        const startTime = Date.now();
-        const [claude, codex, gemini] = await Promise.all([
-            this.syncProvider('claude'),
-            this.syncProvider('codex'),
-            this.syncProvider('gemini'),
-        ]);
+    async syncProvider(provider, job = null) {
+        const db = await this.ensureDb();
+        const roots = this.roots[provider].map((root) => root.path);
+        const available = roots.filter((root) => fs.existsSync(root));
+        if (available.length === 0) {
+            // Nothing to scan, but sessions archived earlier still go if history isn't kept
+            if (!this.keepsDeletedSessions(db)) {
+                await this.exclusive(async () => db.purgeArchivedSessions(provider));
+            }
+            return { added: 0, updated: 0, deleted: 0 };
+        }
+        return this.exclusive(async () => {
+            if (job?.cancelled)
+                return { added: 0, updated: 0, deleted: 0 };
+            job?.setState('scanning', provider);
+            const files = new Set();
+            for (const root of available) {
+                for (const filePath of await this.findSessionFiles(root))
+                    files.add(filePath);
+            }
+            const { added, updated } = await this.syncFiles(db, provider, [...files], job);
+            // Files under a root that's missing right now (an unmounted VM) aren't
+            // deleted, and neither are they when this sync was cancelled
+            let deleted = 0;
+            if (!job?.cancelled) {
+                const unavailable = roots.filter((root) => !available.includes(root));
+                for (const filePath of db.getTrackedFiles(provider)) {
+                    if (unavailable.some((root) => filePath.startsWith(root + path.sep)))
+                        files.add(filePath);
+                }
+                deleted = this.archiveDeletedFiles(db, provider, files);
+            }
+            const counts = { added, updated, deleted };
+            job?.addCounts(counts);
+            return counts;
+        });
+    }
+    /**
+     * Sync just the files a watcher reported as changed. Files that no longer
+     * exist are archived like in a full sync.
+     */
+    async syncChangedFiles(changes) {
+        const db = await this.ensureDb();
+        await this.exclusive(async () => {
+            for (const [provider, files] of changes) {
+                const existing = files.filter((filePath) => fs.existsSync(filePath));
+                const { added, updated } = await this.syncFiles(db, provider, existing);
+                let deleted = 0;
+                if (existing.length < files.length) {
+                    const missing = new Set(files.filter((filePath) => !existing.includes(filePath)));
+                    deleted = this.archiveDeletedFiles(db, provider, new Set(db.getTrackedFiles(provider).filter((filePath) => !missing.has(filePath))));
+                }
+                // Appends to active sessions arrive every second or so; only log new and removed ones
+                if (added > 0 || deleted > 0) {
+                    console.log(`[DB Sync] Watched ${provider} changes: +${added} ~${updated} -${deleted}`);
+                }
+            }
+        });
+        this.cache.clear();
         this.lastSyncTime = Date.now();
-        const duration = Date.now() - startTime;
-        console.log(`[DB Sync] Duration: ${duration}ms | Claude: +${claude.added}/-${claude.deleted} | Codex: +${codex.added}/-${codex.deleted} | Gemini: +${gemini.added}/-${gemini.deleted}`);
-        return { claude, codex, gemini, duration };
+        await this.notifySyncListeners();
+    }
+    /**
+     * Sync all providers as a background job. While one runs, further calls
+     * wait for it rather than starting another.
+     */
+    syncAll(trigger = 'auto') {
+        if (!this.jobPromise) {
+            this.jobPromise = this.runSyncJob(trigger).finally(() => {
+                this.jobPromise = null;
+            });
+        }
+        return this.jobPromise;
+    }
+    async runSyncJob(trigger) {
+        const db = await this.ensureDb();
+        const job = new syncJob_1.SyncJob(trigger, (status) => this.notifyStatus(status));
+        this.job = job;
+        const none = { added: 0, updated: 0, deleted: 0 };
+        const results = { claude: none, codex: none, gemini: none };
+        let failure = null;
+        try {
+            for (const provider of ['claude', 'codex', 'gemini']) {
+                results[provider] = await this.syncProvider(provider, job);
+            }
+        }
+        catch (error) {
+            failure = error;
+        }
+        const run = job.toRun(failure ? 'failed' : job.cancelled ? 'cancelled' : 'completed', failure?.message ?? null);
+        try {
+            db.recordSyncRun(run);
+        }
+        finally {
+            this.job = null;
+            this.notifyStatus(syncJob_1.IDLE_SYNC_STATUS);
+        }
+        if (failure)
+            throw failure;
+        this.lastSyncTime = Date.now();
+        const { claude, codex, gemini } = results;
+        console.log(`[DB Sync] ${job.cancelled ? 'Cancelled after' : 'Duration:'} ${run.durationMs}ms | Claude: +${claude.added}/-${claude.deleted} | Codex: +${codex.added}/-${codex.deleted} | Gemini: +${gemini.added}/-${gemini.deleted}`);
+        await this.notifySyncListeners();
+        return { claude, codex, gemini, duration: run.durationMs, cancelled: job.cancelled };
+    }
+    /**
+     * Ask the running sync job to stop. Returns false if none is running.
+     */
+    cancelSync() {
+        if (!this.job)
+            return false;
+        this.job.cancel();
+        return true;
+    }
+    getSyncStatus() {
+        return this.job?.status() ?? syncJob_1.IDLE_SYNC_STATUS;
+    }
+    /**
+     * Recent sync jobs, newest first
+     */
+    async getSyncHistory(limit) {
+        const db = await this.ensureDb();
+        return db.getSyncRuns(limit);
+    }
+    async notifySyncListeners() {
+        for (const listener of this.syncListeners) {
+            try {
+                await listener();
+            }
+            catch (error) {
+                console.error('[DB Sync] Sync listener failed:', error);
+            }
+        }
+    }
+    notifyStatus(status) {
+        for (const listener of this.statusListeners) {
+            listener(status);
+        }
+    }
+    /**
+     * Follow the state and progress of sync jobs
+     */
+    onStatus(listener) {
+        this.statusListeners.push(listener);
+    }
+    /**
+     * Run a callback after every completed sync
+     */
+    onSync(listener) {
+        this.syncListeners.push(listener);
     }
     /**
      * Get all sessions for a provider (from database with auto-sync)
@@ -548,8 +1230,7 @@ class SessionParser {
         if (this.cache.has(cacheKey) && (now - this.lastSyncTime) < this.syncInterval) {
             return this.cache.get(cacheKey);
         }
-        const baseDir = exports.SESSION_DIRS[provider];
-        if (!baseDir || !fs.existsSync(baseDir)) {
+        if (!this.roots[provider].some((root) => fs.existsSync(root.path))) {
             return [];
         }
         // Sync this provider's files
@@ -560,13 +1241,24 @@ class SessionParser {
         return sessions;
     }
     /**
-     * Get aggregated usage for all providers
+     * Get aggregated usage for all providers, or one account
      * Uses incremental sync for better performance
      */
-    async getAllUsage() {
-        const db = await this.ensureDb();
+    async getAllUsage(account = null) {
         // Sync all providers first (incremental - only parses changed files)
         await this.syncAll();
+        return this.aggregateUsage(account);
+    }
+    /**
+     * Aggregate usage from the database as last synced. With an account, every
+     * aggregate only counts its sessions; an account that no longer exists
+     * falls back to all of them.
+     */
+    async aggregateUsage(account = null) {
+        const db = await this.ensureDb();
+        const accounts = (0, accounts_1.resolveAccounts)(this.accountConfig);
+        const filter = accounts.find((entry) => entry.id === account) || null;
+        const accountId = filter?.id ?? null;
         const usage = {
             providers: {},
             totals: {
@@ -579,46 +1271,36 @@ class SessionParser {
             },
             byModel: {},
             byDate: {},
+            byWindow: {},
+            recentTotals: emptyDateStats(),
             byProject: {},
             recentSessions: [],
+            rateLimits: null,
+            activeBlock: null,
+            weekly: {},
+            budgets: [],
+            accounts,
+            account: accountId,
         };
         const providers = ['claude', 'codex', 'gemini'];
+        const weeklyConfig = (0, weekly_1.parseWeeklyConfig)(db.getSetting(weekly_1.WEEKLY_LIMITS_SETTING, '{}'));
+        const weekStart = new Date((0, weekly_1.getWeekWindow)(weeklyConfig).start).toISOString();
         for (const provider of providers) {
             // Get sessions from database (already synced)
-            const sessions = db.getSessions(provider);
+            const sessions = db.getSessions(provider, accountId);
             const providerStats = {
                 sessions: sessions.length,
                 messages: 0,
                 inputTokens: 0,
                 outputTokens: 0,
                 costUsd: 0,
-                available: fs.existsSync(exports.SESSION_DIRS[provider]),
+                available: this.roots[provider].some((root) => (!filter || this.accountOf(provider, root.path) === filter.id) && fs.existsSync(root.path)),
             };
             for (const session of sessions) {
                 providerStats.messages += session.messages;
                 providerStats.inputTokens += session.inputTokens;
                 providerStats.outputTokens += session.outputTokens;
                 providerStats.costUsd += session.costUsd;
-                // Aggregate by model
-                const model = session.model || 'unknown';
-                if (!usage.byModel[model]) {
-                    usage.byModel[model] = { sessions: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
-                }
-                usage.byModel[model].sessions++;
-                usage.byModel[model].inputTokens += session.inputTokens;
-                usage.byModel[model].outputTokens += session.outputTokens;
-                usage.byModel[model].costUsd += session.costUsd;
-                // Aggregate by date
-                if (session.lastMessage) {
-                    const date = new Date(session.lastMessage).toISOString().split('T')[0];
-                    if (!usage.byDate[date]) {
-                        usage.byDate[date] = { sessions: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
-                    }
-                    usage.byDate[date].sessions++;
-                    usage.byDate[date].inputTokens += session.inputTokens;
-                    usage.byDate[date].outputTokens += session.outputTokens;
-                    usage.byDate[date].costUsd += session.costUsd;
-                }
                 // Aggregate by project
                 const projectName = session.project || `${provider}-sessions`;
                 if (!usage.byProject[projectName]) {
@@ -646,6 +1328,11 @@ class SessionParser {
                 }
             }
             usage.providers[provider] = providerStats;
+            for (const entry of accounts) {
+                if (entry.provider !== provider || (filter && entry.id !== filter.id))
+                    continue;
+                usage.weekly[entry.id] = (0, weekly_1.computeWeeklyUsage)(db.getEventTimeline(provider, weekStart, entry.id), weeklyConfig.caps[entry.id] || null, weeklyConfig);
+            }
             usage.totals.sessions += providerStats.sessions;
             usage.totals.messages += providerStats.messages;
             usage.totals.inputTokens += providerStats.inputTokens;
@@ -655,6 +1342,24 @@ class SessionParser {
             usage.recentSessions.push(...sessions.slice(0, 10));
         }
         usage.totals.totalTokens = usage.totals.inputTokens + usage.totals.outputTokens;
+        usage.rateLimits = db.getLatestRateLimits(accountId);
+        usage.activeBlock = (0, blocks_1.getActiveBlock)(await this.getBillingBlocks(accountId));
+        usage.budgets = (0, budgets_1.evaluateBudgets)(db).filter(({ budget }) => !filter || (0, budgets_1.budgetAppliesToAccount)(budget, filter));
+        // Mixed-model sessions contribute to every model they used
+        usage.byModel = db.getModelStats(accountId);
+        // Time buckets come from per-turn events so long sessions spread across days
+        // (finer or custom ranges go through the time series API). Days are local,
+        // like daily budgets.
+        usage.byDate = this.groupEventBuckets(db.getEventBuckets(true, undefined, accountId), (bucket) => bucket);
+        // Single-bucket aggregates over trailing windows
+        const summarizeSince = (ms) => {
+            const since = new Date(Date.now() - ms).toISOString();
+            return this.groupEventBuckets(db.getEventBuckets(false, since, accountId), () => 'all')['all'] || emptyDateStats();
+        };
+        for (const hours of exports.RECENT_WINDOW_HOURS) {
+            usage.byWindow[String(hours)] = summarizeSince(hours * 60 * 60 * 1000);
+        }
+        usage.recentTotals = summarizeSince(exports.SUMMARY_DAYS * 24 * 60 * 60 * 1000);
         // Sort recent sessions by date
         usage.recentSessions.sort((a, b) => {
             const dateA = a.lastMessage ? new Date(a.lastMessage).getTime() : 0;
@@ -664,14 +1369,50 @@ class SessionParser {
         usage.recentSessions = usage.recentSessions.slice(0, 20);
         return usage;
     }
+    /**
+     * Rebuild Claude's 5-hour billing blocks from recent usage events, of all accounts or one
+     */
+    async getBillingBlocks(account = null) {
+        const db = await this.ensureDb();
+        const since = new Date(Date.now() - BLOCK_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        return (0, blocks_1.buildBillingBlocks)(db.getEventTimeline('claude', since, account));
+    }
+    /**
+     * Fold per-provider bucket rows into DateStats keyed by bucket
+     */
+    groupEventBuckets(rows, toKey) {
+        const result = {};
+        for (const row of rows) {
+            const key = toKey(row.bucket);
+            if (!result[key]) {
+                result[key] = emptyDateStats();
+            }
+            result[key].sessions += row.sessions;
+            result[key].inputTokens += row.inputTokens;
+            result[key].outputTokens += row.outputTokens;
+            result[key].reasoningOutputTokens += row.reasoningOutputTokens;
+            result[key].costUsd += row.costUsd;
+            result[key].providers[row.provider] = {
+                sessions: row.sessions,
+                inputTokens: row.inputTokens,
+                outputTokens: row.outputTokens,
+                reasoningOutputTokens: row.reasoningOutputTokens,
+                costUsd: row.costUsd,
+            };
+        }
+        return result;
+    }
     /**
      * Force re-parse all files (clear database and rebuild)
      */
     async forceRebuild() {
         const db = await this.ensureDb();
         console.log('[DB] Force rebuilding database...');
-        db.clearAll();
+        await this.exclusive(async () => db.clearAll());
         this.cache.clear();
+        // A job that was already running may have stored providers before the clear
+        if (this.jobPromise)
+            await this.jobPromise.catch(() => undefined);
         await this.syncAll();
         console.log('[DB] Rebuild complete');
     }
@@ -5,10 +5,31 @@
 const { contextBridge, ipcRenderer } = require('electron')
 
 contextBridge.exposeInMainWorld('electronAPI', {
-  getAllUsage: () => ipcRenderer.invoke('get-all-usage'),
+  getAllUsage: (account) => ipcRenderer.invoke('get-all-usage', account),
   getSessions: (provider) => ipcRenderer.invoke('get-sessions', provider),
-  refreshData: () => ipcRenderer.invoke('refresh-data'),
+  refreshData: (account) => ipcRenderer.invoke('refresh-data', account),
+  querySessions: (query) => ipcRenderer.invoke('query-sessions', query),
+  getSessionDetail: (path) => ipcRenderer.invoke('get-session-detail', path),
+  getTranscript: (path) => ipcRenderer.invoke('get-transcript', path),
+  searchMessages: (query) => ipcRenderer.invoke('search-messages', query),
+  getTimeseries: (query) => ipcRenderer.invoke('get-timeseries', query),
+  onUsageUpdated: (callback) => {
+    const listener = (_event, data) => callback(data)
+    ipcRenderer.on('usage-updated', listener)
+    return () => ipcRenderer.removeListener('usage-updated', listener)
+  },
   
+  // Sync jobs
+  startSync: () => ipcRenderer.invoke('start-sync'),
+  cancelSync: () => ipcRenderer.invoke('cancel-sync'),
+  getSyncStatus: () => ipcRenderer.invoke('get-sync-status'),
+  getSyncHistory: () => ipcRenderer.invoke('get-sync-history'),
+  onSyncStatus: (callback) => {
+    const listener = (_event, status) => callback(status)
+    ipcRenderer.on('sync-status', listener)
+    return () => ipcRenderer.removeListener('sync-status', listener)
+  },
+
   // Window controls
   windowMinimize: () => ipcRenderer.send('window-minimize'),
   windowMaximize: () => ipcRenderer.send('window-maximize'),
@@ -25,5 +46,24 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Settings
   saveSetting: (key, value) => ipcRenderer.invoke('save-setting', key, value),
   getSetting: (key, defaultValue) => ipcRenderer.invoke('get-setting', key, defaultValue),
+
+  // Budgets
+  getBudgets: () => ipcRenderer.invoke('get-budgets'),
+  saveBudget: (budget) => ipcRenderer.invoke('save-budget', budget),
+  deleteBudget: (id) => ipcRenderer.invoke('delete-budget', id),
+  getBudgetAlerts: () => ipcRenderer.invoke('get-budget-alerts'),
+
+  // Session roots
+  getSessionRoots: () => ipcRenderer.invoke('get-session-roots'),
+  inspectSessionRoot: (provider, path) => ipcRenderer.invoke('inspect-session-root', provider, path),
+  saveSessionRoots: (config) => ipcRenderer.invoke('save-session-roots', config),
+
+  // Accounts
+  getAccounts: () => ipcRenderer.invoke('get-accounts'),
+  saveAccounts: (config) => ipcRenderer.invoke('save-accounts', config),
+
+  // Pricing catalog
+  getPricing: () => ipcRenderer.invoke('get-pricing'),
+  savePricingOverrides: (overrides) => ipcRenderer.invoke('save-pricing-overrides', overrides),
 })
 
@@ -0,0 +1,224 @@
+"use strict";
+/**
+ * Pricing Catalog - Per-model token rates with effective dates
+ *
+ * Rates ship in pricing.json next to this file and can be overridden per model
+ * in ~/.llm-usage-tracker/pricing.json. Each model has a list of entries; an
+ * event is priced with the latest entry in force on the day it happened.
+ */
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || (function () {
+    var ownKeys = function(o) {
+        ownKeys = Object.getOwnPropertyNames || function (o) {
+            var ar = [];
+            for (var k in o) if (Object.prototype.hasOwnProperty.call(o, k)) ar[ar.length] = k;
+            return ar;
+        };
+        return ownKeys(o);
+    };
+    return function (mod) {
+        if (mod && mod.__esModule) return mod;
+        var result = {};
+        if (mod != null) for (var k = ownKeys(mod), i = 0; i < k.length; i++) if (k[i] !== "default") __createBinding(result, mod, k[i]);
+        __setModuleDefault(result, mod);
+        return result;
+    };
+})();
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.PricingCatalog = exports.DEFAULT_PRICING_MODEL = exports.PRICING_OVERRIDE_PATH = void 0;
+const fs = __importStar(require("fs"));
+const path = __importStar(require("path"));
+const os = __importStar(require("os"));
+const crypto_1 = require("crypto");
+const BUNDLED_PATH = path.join(__dirname, 'pricing.json');
+exports.PRICING_OVERRIDE_PATH = path.join(os.homedir(), '.llm-usage-tracker', 'pricing.json');
+exports.DEFAULT_PRICING_MODEL = 'default';
+const FALLBACK_PRICING = {
+    effectiveFrom: '1970-01-01',
+    input: 3.0,
+    output: 15.0,
+    cacheRead: 0.3,
+    cacheWrite5m: 3.75,
+    cacheWrite1h: 6.0,
+};
+const RATE_KEYS = ['input', 'output', 'cacheRead', 'cacheWrite5m', 'cacheWrite1h'];
+/**
+ * Why a price entry can't be used, or null when it's valid
+ */
+function entryError(entry) {
+    if (!entry || typeof entry !== 'object')
+        return 'is not an object';
+    const record = entry;
+    const date = record.effectiveFrom;
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+        return 'needs an effective date (YYYY-MM-DD)';
+    }
+    for (const key of RATE_KEYS) {
+        const rate = record[key];
+        if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+            return `has an invalid ${key} rate`;
+        }
+    }
+    return null;
+}
+/**
+ * Keep the valid entries and aliases of a parsed pricing file, reporting the rest
+ */
+function sanitizeTable(parsed, source) {
+    const models = {};
+    if (parsed.models && typeof parsed.models === 'object') {
+        for (const [name, entries] of Object.entries(parsed.models)) {
+            if (!Array.isArray(entries)) {
+                console.warn(`[Pricing] Ignoring ${name} in ${source}: entries are not a list`);
+                continue;
+            }
+            models[name] = entries.filter((entry) => {
+                const error = entryError(entry);
+                if (error)
+                    console.warn(`[Pricing] Ignoring a ${name} entry in ${source}: it ${error}`);
+                return !error;
+            });
+        }
+    }
+    const aliases = {};
+    if (parsed.aliases && typeof parsed.aliases === 'object') {
+        for (const [alias, model] of Object.entries(parsed.aliases)) {
+            if (typeof model === 'string' && model)
+                aliases[alias] = model;
+        }
+    }
+    return { models, aliases };
+}
+function readTable(filePath) {
+    try {
+        if (!fs.existsSync(filePath))
+            return null;
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        return {
+            version: typeof parsed.version === 'string' ? parsed.version : undefined,
+            ...sanitizeTable(parsed, filePath),
+        };
+    }
+    catch (error) {
+        console.error(`[Pricing] Failed to read ${filePath}:`, error);
+        return null;
+    }
+}
+/**
+ * Combine entry lists; an override with the same effective date replaces the bundled one
+ */
+function mergeEntries(base, overrides) {
+    const byDate = new Map();
+    for (const entry of [...base, ...overrides]) {
+        byDate.set(entry.effectiveFrom, entry);
+    }
+    return [...byDate.values()].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+class PricingCatalog {
+    constructor(bundled, overrides) {
+        // Model names and aliases, longest first, for substring matching
+        this.matchKeys = [];
+        const models = {};
+        for (const name of new Set([...Object.keys(bundled.models), ...Object.keys(overrides.models)])) {
+            models[name] = mergeEntries(bundled.models[name] || [], overrides.models[name] || []);
+        }
+        this.data = {
+            version: bundled.version || 'unknown',
+            models,
+            aliases: { ...bundled.aliases, ...overrides.aliases },
+            overrides,
+        };
+        this.matchKeys = [...Object.keys(models), ...Object.keys(this.data.aliases)]
+            .filter((key) => key !== exports.DEFAULT_PRICING_MODEL)
+            .sort((a, b) => b.length - a.length);
+        this.fingerprint = (0, crypto_1.createHash)('sha1')
+            .update(JSON.stringify({ models, aliases: this.data.aliases }))
+            .digest('hex');
+    }
+    /**
+     * Load the bundled catalog merged with the user's overrides
+     */
+    static load() {
+        const bundled = readTable(BUNDLED_PATH) || { models: {}, aliases: {} };
+        const overrides = readTable(exports.PRICING_OVERRIDE_PATH) || { models: {}, aliases: {} };
+        return new PricingCatalog(bundled, { models: overrides.models, aliases: overrides.aliases });
+    }
+    /**
+     * Persist user overrides; takes effect on the next load(). Throws on the
+     * first invalid entry or alias instead of saving anything.
+     */
+    static saveOverrides(overrides) {
+        for (const [name, entries] of Object.entries(overrides?.models || {})) {
+            if (!name.trim())
+                throw new Error('Model rates need a model id');
+            if (!Array.isArray(entries))
+                throw new Error(`Rates of ${name} are not a list`);
+            for (const entry of entries) {
+                const error = entryError(entry);
+                if (error)
+                    throw new Error(`A rate entry of ${name} ${error}`);
+            }
+        }
+        for (const [alias, model] of Object.entries(overrides?.aliases || {})) {
+            if (typeof model !== 'string' || !model)
+                throw new Error(`Alias ${alias} needs a model`);
+        }
+        fs.mkdirSync(path.dirname(exports.PRICING_OVERRIDE_PATH), { recursive: true });
+        fs.writeFileSync(exports.PRICING_OVERRIDE_PATH, JSON.stringify(overrides, null, 2));
+    }
+    getData() {
+        return this.data;
+    }
+    /**
+     * Catalog model that prices a model id reported in the logs
+     */
+    resolveModel(model) {
+        if (!model)
+            return exports.DEFAULT_PRICING_MODEL;
+        if (this.data.models[model])
+            return model;
+        if (this.data.aliases[model])
+            return this.data.aliases[model];
+        // Longest match first so e.g. gpt-4o-mini isn't priced as gpt-4o
+        for (const key of this.matchKeys) {
+            if (model.includes(key)) {
+                return this.data.models[key] ? key : this.data.aliases[key];
+            }
+        }
+        return exports.DEFAULT_PRICING_MODEL;
+    }
+    /**
+     * Rates for a model at a point in time (latest rates when the time is unknown)
+     */
+    getPricing(model, timestamp = null) {
+        const entries = this.data.models[this.resolveModel(model)] || this.data.models[exports.DEFAULT_PRICING_MODEL];
+        if (!entries || entries.length === 0)
+            return FALLBACK_PRICING;
+        if (!timestamp)
+            return entries[entries.length - 1];
+        // Events before the first known price use the earliest rates
+        const day = timestamp.slice(0, 10);
+        let match = entries[0];
+        for (const entry of entries) {
+            if (entry.effectiveFrom <= day)
+                match = entry;
+        }
+        return match;
+    }
+}
+exports.PricingCatalog = PricingCatalog;
@@ -0,0 +1,216 @@
+/**
+ * Pricing Catalog - Per-model token rates with effective dates
+ *
+ * Rates ship in pricing.json next to this file and can be overridden per model
+ * in ~/.llm-usage-tracker/pricing.json. Each model has a list of entries; an
+ * event is priced with the latest entry in force on the day it happened.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import { createHash } from 'crypto'
+import type { ModelPricing } from './parser'
+
+const BUNDLED_PATH = path.join(__dirname, 'pricing.json')
+export const PRICING_OVERRIDE_PATH = path.join(os.homedir(), '.llm-usage-tracker', 'pricing.json')
+
+export const DEFAULT_PRICING_MODEL = 'default'
+
+export interface PriceEntry extends ModelPricing {
+  // YYYY-MM-DD, UTC
+  effectiveFrom: string
+}
+
+export interface PricingTable {
+  models: Record<string, PriceEntry[]>
+  // Alias (exact name or substring of a model id) -> catalog model
+  aliases: Record<string, string>
+}
+
+export interface PricingCatalogData extends PricingTable {
+  // Version of the bundled catalog
+  version: string
+  overrides: PricingTable
+}
+
+const FALLBACK_PRICING: PriceEntry = {
+  effectiveFrom: '1970-01-01',
+  input: 3.0,
+  output: 15.0,
+  cacheRead: 0.3,
+  cacheWrite5m: 3.75,
+  cacheWrite1h: 6.0,
+}
+
+const RATE_KEYS: (keyof ModelPricing)[] = ['input', 'output', 'cacheRead', 'cacheWrite5m', 'cacheWrite1h']
+
+/**
+ * Why a price entry can't be used, or null when it's valid
+ */
+function entryError(entry: unknown): string | null {
+  if (!entry || typeof entry !== 'object') return 'is not an object'
+  const record = entry as Record<string, unknown>
+  const date = record.effectiveFrom
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    return 'needs an effective date (YYYY-MM-DD)'
+  }
+  for (const key of RATE_KEYS) {
+    const rate = record[key]
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+      return `has an invalid ${key} rate`
+    }
+  }
+  return null
+}
+
+/**
+ * Keep the valid entries and aliases of a parsed pricing file, reporting the rest
+ */
+function sanitizeTable(parsed: any, source: string): PricingTable {
+  const models: Record<string, PriceEntry[]> = {}
+  if (parsed.models && typeof parsed.models === 'object') {
+    for (const [name, entries] of Object.entries(parsed.models)) {
+      if (!Array.isArray(entries)) {
+        console.warn(`[Pricing] Ignoring ${name} in ${source}: entries are not a list`)
+        continue
+      }
+      models[name] = entries.filter((entry) => {
+        const error = entryError(entry)
+        if (error) console.warn(`[Pricing] Ignoring a ${name} entry in ${source}: it ${error}`)
+        return !error
+      })
+    }
+  }
+
+  const aliases: Record<string, string> = {}
+  if (parsed.aliases && typeof parsed.aliases === 'object') {
+    for (const [alias, model] of Object.entries(parsed.aliases)) {
+      if (typeof model === 'string' && model) aliases[alias] = model
+    }
+  }
+
+  return { models, aliases }
+}
+
+function readTable(filePath: string): (PricingTable & { version?: string }) | null {
+  try {
+    if (!fs.existsSync(filePath)) return null
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    return {
+      version: typeof parsed.version === 'string' ? parsed.version : undefined,
+      ...sanitizeTable(parsed, filePath),
+    }
+  } catch (error) {
+    console.error(`[Pricing] Failed to read ${filePath}:`, error)
+    return null
+  }
+}
+
+/**
+ * Combine entry lists; an override with the same effective date replaces the bundled one
+ */
+function mergeEntries(base: PriceEntry[], overrides: PriceEntry[]): PriceEntry[] {
+  const byDate = new Map<string, PriceEntry>()
+  for (const entry of [...base, ...overrides]) {
+    byDate.set(entry.effectiveFrom, entry)
+  }
+  return [...byDate.values()].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+}
+
+export class PricingCatalog {
+  private data: PricingCatalogData
+  // Model names and aliases, longest first, for substring matching
+  private matchKeys: string[] = []
+  readonly fingerprint: string
+
+  constructor(bundled: PricingTable & { version?: string }, overrides: PricingTable) {
+    const models: Record<string, PriceEntry[]> = {}
+    for (const name of new Set([...Object.keys(bundled.models), ...Object.keys(overrides.models)])) {
+      models[name] = mergeEntries(bundled.models[name] || [], overrides.models[name] || [])
+    }
+
+    this.data = {
+      version: bundled.version || 'unknown',
+      models,
+      aliases: { ...bundled.aliases, ...overrides.aliases },
+      overrides,
+    }
+    this.matchKeys = [...Object.keys(models), ...Object.keys(this.data.aliases)]
+      .filter((key) => key !== DEFAULT_PRICING_MODEL)
+      .sort((a, b) => b.length - a.length)
+    this.fingerprint = createHash('sha1')
+      .update(JSON.stringify({ models, aliases: this.data.aliases }))
+      .digest('hex')
+  }
+
+  /**
+   * Load the bundled catalog merged with the user's overrides
+   */
+  static load(): PricingCatalog {
+    const bundled = readTable(BUNDLED_PATH) || { models: {}, aliases: {} }
+    const overrides = readTable(PRICING_OVERRIDE_PATH) || { models: {}, aliases: {} }
+    return new PricingCatalog(bundled, { models: overrides.models, aliases: overrides.aliases })
+  }
+
+  /**
+   * Persist user overrides; takes effect on the next load(). Throws on the
+   * first invalid entry or alias instead of saving anything.
+   */
+  static saveOverrides(overrides: PricingTable): void {
+    for (const [name, entries] of Object.entries(overrides?.models || {})) {
+      if (!name.trim()) throw new Error('Model rates need a model id')
+      if (!Array.isArray(entries)) throw new Error(`Rates of ${name} are not a list`)
+      for (const entry of entries) {
+        const error = entryError(entry)
+        if (error) throw new Error(`A rate entry of ${name} ${error}`)
+      }
+    }
+    for (const [alias, model] of Object.entries(overrides?.aliases || {})) {
+      if (typeof model !== 'string' || !model) throw new Error(`Alias ${alias} needs a model`)
+    }
+
+    fs.mkdirSync(path.dirname(PRICING_OVERRIDE_PATH), { recursive: true })
+    fs.writeFileSync(PRICING_OVERRIDE_PATH, JSON.stringify(overrides, null, 2))
+  }
+
+  getData(): PricingCatalogData {
+    return this.data
+  }
+
+  /**
+   * Catalog model that prices a model id reported in the logs
+   */
+  resolveModel(model: string | null): string {
+    if (!model) return DEFAULT_PRICING_MODEL
+    if (this.data.models[model]) return model
+    if (this.data.aliases[model]) return this.data.aliases[model]
+
+    // Longest match first so e.g. gpt-4o-mini isn't priced as gpt-4o
+    for (const key of this.matchKeys) {
+      if (model.includes(key)) {
+        return this.data.models[key] ? key : this.data.aliases[key]
+      }
+    }
+
+    return DEFAULT_PRICING_MODEL
+  }
+
+  /**
+   * Rates for a model at a point in time (latest rates when the time is unknown)
+   */
+  getPricing(model: string | null, timestamp: string | null = null): ModelPricing {
+    const entries = this.data.models[this.resolveModel(model)] || this.data.models[DEFAULT_PRICING_MODEL]
+    if (!entries || entries.length === 0) return FALLBACK_PRICING
+
+    if (!timestamp) return entries[entries.length - 1]
+
+    // Events before the first known price use the earliest rates
+    const day = timestamp.slice(0, 10)
+    let match = entries[0]
+    for (const entry of entries) {
+      if (entry.effectiveFrom <= day) match = entry
+    }
+    return match
+  }
+}
@@ -0,0 +1,153 @@
+"use strict";
+/**
+ * Session Roots - Directories each provider's session files are read from
+ *
+ * Every provider has a detected root: its default location, moved by
+ * CLAUDE_CONFIG_DIR or CODEX_HOME the same way the CLIs resolve it. More
+ * roots (a WSL home, a mounted dev VM, an archived copy) are added in
+ * Settings and stored in the sessionRoots setting as JSON.
+ */
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || (function () {
+    var ownKeys = function(o) {
+        ownKeys = Object.getOwnPropertyNames || function (o) {
+            var ar = [];
+            for (var k in o) if (Object.prototype.hasOwnProperty.call(o, k)) ar[ar.length] = k;
+            return ar;
+        };
+        return ownKeys(o);
+    };
+    return function (mod) {
+        if (mod && mod.__esModule) return mod;
+        var result = {};
+        if (mod != null) for (var k = ownKeys(mod), i = 0; i < k.length; i++) if (k[i] !== "default") __createBinding(result, mod, k[i]);
+        __setModuleDefault(result, mod);
+        return result;
+    };
+})();
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.SESSION_ROOTS_SETTING = void 0;
+exports.expandRootPath = expandRootPath;
+exports.detectSessionRoots = detectSessionRoots;
+exports.parseSessionRootConfig = parseSessionRootConfig;
+exports.resolveSessionRoots = resolveSessionRoots;
+exports.checkRootPath = checkRootPath;
+exports.rootOf = rootOf;
+const fs = __importStar(require("fs"));
+const os = __importStar(require("os"));
+const path = __importStar(require("path"));
+exports.SESSION_ROOTS_SETTING = 'sessionRoots';
+const PROVIDERS = ['claude', 'codex', 'gemini'];
+/**
+ * Turn user input into an absolute path, expanding a leading ~
+ */
+function expandRootPath(input) {
+    const trimmed = input.trim();
+    if (trimmed === '~' || trimmed.startsWith('~/') || trimmed.startsWith('~\\')) {
+        return path.join(os.homedir(), trimmed.slice(1));
+    }
+    return path.resolve(trimmed);
+}
+/**
+ * Roots found from the environment and the default locations
+ */
+function detectSessionRoots(env = process.env) {
+    const home = os.homedir();
+    // Claude Code accepts several config dirs separated by commas
+    const claudeDirs = (env.CLAUDE_CONFIG_DIR || '').split(',').map((dir) => dir.trim()).filter(Boolean);
+    const claude = claudeDirs.length > 0
+        ? claudeDirs.map((dir) => ({ path: path.join(expandRootPath(dir), 'projects'), detectedFrom: 'CLAUDE_CONFIG_DIR' }))
+        : [{ path: path.join(home, '.claude', 'projects'), detectedFrom: 'default' }];
+    // Newer Claude Code versions default to the XDG config dir
+    const xdgClaude = path.join(env.XDG_CONFIG_HOME || path.join(home, '.config'), 'claude', 'projects');
+    if (claudeDirs.length === 0 && fs.existsSync(xdgClaude)) {
+        claude.push({ path: xdgClaude, detectedFrom: 'default' });
+    }
+    const codex = env.CODEX_HOME
+        ? [{ path: path.join(expandRootPath(env.CODEX_HOME), 'sessions'), detectedFrom: 'CODEX_HOME' }]
+        : [{ path: path.join(home, '.codex', 'sessions'), detectedFrom: 'default' }];
+    const gemini = [{ path: path.join(home, '.gemini', 'tmp'), detectedFrom: 'default' }];
+    return { claude, codex, gemini };
+}
+/**
+ * Read the sessionRoots setting; anything unreadable counts as no extra roots
+ */
+function parseSessionRootConfig(value) {
+    const config = { claude: [], codex: [], gemini: [] };
+    try {
+        const parsed = value ? JSON.parse(value) : {};
+        for (const provider of PROVIDERS) {
+            if (Array.isArray(parsed[provider])) {
+                config[provider] = parsed[provider].filter((root) => typeof root === 'string' && root.trim() !== '');
+            }
+        }
+    }
+    catch {
+        // Keep the detected roots only
+    }
+    return config;
+}
+/**
+ * Detected roots followed by the configured ones, without duplicates
+ */
+function resolveSessionRoots(config, env = process.env) {
+    const detected = detectSessionRoots(env);
+    const roots = {};
+    for (const provider of PROVIDERS) {
+        const seen = new Set();
+        roots[provider] = [];
+        for (const root of [...detected[provider], ...config[provider].map((dir) => ({ path: expandRootPath(dir), detectedFrom: null }))]) {
+            if (seen.has(root.path))
+                continue;
+            seen.add(root.path);
+            roots[provider].push(root);
+        }
+    }
+    return roots;
+}
+/**
+ * Why a root can't be read, or null if it can
+ */
+function checkRootPath(rootPath) {
+    try {
+        if (!fs.statSync(rootPath).isDirectory())
+            return 'Not a directory';
+        fs.accessSync(rootPath, fs.constants.R_OK);
+        return null;
+    }
+    catch (e) {
+        const code = e.code;
+        if (code === 'ENOENT')
+            return 'Directory not found';
+        if (code === 'EACCES' || code === 'EPERM')
+            return 'Permission denied';
+        return e.message;
+    }
+}
+/**
+ * The root a session file was found under; the deepest one if roots are nested
+ */
+function rootOf(roots, filePath) {
+    let match = null;
+    for (const root of roots) {
+        if (filePath.startsWith(root.path + path.sep) && (!match || root.path.length > match.length)) {
+            match = root.path;
+        }
+    }
+    return match;
+}
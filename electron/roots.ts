@@ -0,0 +1,136 @@
+/**
+ * Session Roots - Directories each provider's session files are read from
+ *
+ * Every provider has a detected root: its default location, moved by
+ * CLAUDE_CONFIG_DIR or CODEX_HOME the same way the CLIs resolve it. More
+ * roots (a WSL home, a mounted dev VM, an archived copy) are added in
+ * Settings and stored in the sessionRoots setting as JSON.
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import type { Provider } from './parser'
+
+export const SESSION_ROOTS_SETTING = 'sessionRoots'
+
+export interface SessionRoot {
+  path: string
+  // Environment variable or 'default' for detected roots; null for roots added in Settings
+  detectedFrom: string | null
+}
+
+// Roots added in Settings, per provider
+export type SessionRootConfig = Record<Provider, string[]>
+
+export interface SessionRootInfo extends SessionRoot {
+  provider: Provider
+  // Why the directory can't be read; null when it can
+  error: string | null
+  sessionFiles: number
+}
+
+const PROVIDERS: Provider[] = ['claude', 'codex', 'gemini']
+
+/**
+ * Turn user input into an absolute path, expanding a leading ~
+ */
+export function expandRootPath(input: string): string {
+  const trimmed = input.trim()
+  if (trimmed === '~' || trimmed.startsWith('~/') || trimmed.startsWith('~\\')) {
+    return path.join(os.homedir(), trimmed.slice(1))
+  }
+  return path.resolve(trimmed)
+}
+
+/**
+ * Roots found from the environment and the default locations
+ */
+export function detectSessionRoots(env: NodeJS.ProcessEnv = process.env): Record<Provider, SessionRoot[]> {
+  const home = os.homedir()
+
+  // Claude Code accepts several config dirs separated by commas
+  const claudeDirs = (env.CLAUDE_CONFIG_DIR || '').split(',').map((dir) => dir.trim()).filter(Boolean)
+  const claude: SessionRoot[] = claudeDirs.length > 0
+    ? claudeDirs.map((dir) => ({ path: path.join(expandRootPath(dir), 'projects'), detectedFrom: 'CLAUDE_CONFIG_DIR' }))
+    : [{ path: path.join(home, '.claude', 'projects'), detectedFrom: 'default' }]
+  // Newer Claude Code versions default to the XDG config dir
+  const xdgClaude = path.join(env.XDG_CONFIG_HOME || path.join(home, '.config'), 'claude', 'projects')
+  if (claudeDirs.length === 0 && fs.existsSync(xdgClaude)) {
+    claude.push({ path: xdgClaude, detectedFrom: 'default' })
+  }
+
+  const codex: SessionRoot[] = env.CODEX_HOME
+    ? [{ path: path.join(expandRootPath(env.CODEX_HOME), 'sessions'), detectedFrom: 'CODEX_HOME' }]
+    : [{ path: path.join(home, '.codex', 'sessions'), detectedFrom: 'default' }]
+
+  const gemini: SessionRoot[] = [{ path: path.join(home, '.gemini', 'tmp'), detectedFrom: 'default' }]
+
+  return { claude, codex, gemini }
+}
+
+/**
+ * Read the sessionRoots setting; anything unreadable counts as no extra roots
+ */
+export function parseSessionRootConfig(value: string): SessionRootConfig {
+  const config: SessionRootConfig = { claude: [], codex: [], gemini: [] }
+  try {
+    const parsed = value ? JSON.parse(value) : {}
+    for (const provider of PROVIDERS) {
+      if (Array.isArray(parsed[provider])) {
+        config[provider] = parsed[provider].filter((root: unknown): root is string => typeof root === 'string' && root.trim() !== '')
+      }
+    }
+  } catch {
+    // Keep the detected roots only
+  }
+  return config
+}
+
+/**
+ * Detected roots followed by the configured ones, without duplicates
+ */
+export function resolveSessionRoots(config: SessionRootConfig, env: NodeJS.ProcessEnv = process.env): Record<Provider, SessionRoot[]> {
+  const detected = detectSessionRoots(env)
+  const roots = {} as Record<Provider, SessionRoot[]>
+
+  for (const provider of PROVIDERS) {
+    const seen = new Set<string>()
+    roots[provider] = []
+    for (const root of [...detected[provider], ...config[provider].map((dir) => ({ path: expandRootPath(dir), detectedFrom: null }))]) {
+      if (seen.has(root.path)) continue
+      seen.add(root.path)
+      roots[provider].push(root)
+    }
+  }
+  return roots
+}
+
+/**
+ * Why a root can't be read, or null if it can
+ */
+export function checkRootPath(rootPath: string): string | null {
+  try {
+    if (!fs.statSync(rootPath).isDirectory()) return 'Not a directory'
+    fs.accessSync(rootPath, fs.constants.R_OK)
+    return null
+  } catch (e) {
+    const code = (e as NodeJS.ErrnoException).code
+    if (code === 'ENOENT') return 'Directory not found'
+    if (code === 'EACCES' || code === 'EPERM') return 'Permission denied'
+    return (e as Error).message
+  }
+}
+
+/**
+ * The root a session file was found under; the deepest one if roots are nested
+ */
+export function rootOf(roots: SessionRoot[], filePath: string): string | null {
+  let match: string | null = null
+  for (const root of roots) {
+    if (filePath.startsWith(root.path + path.sep) && (!match || root.path.length > match.length)) {
+      match = root.path
+    }
+  }
+  return match
+}
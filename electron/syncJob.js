@@ -0,0 +1,93 @@
+"use strict";
+/**
+ * Sync Job - One run of syncing session files into the database
+ *
+ * A sync goes through each provider in turn: listing its files (scanning),
+ * parsing the changed ones on the parse pool while finished batches are
+ * stored (parsing), then storing the rest and archiving deleted files
+ * (writing). The job tracks where it is for the status shown in the title
+ * bar, and can be cancelled between files; what was parsed until then is
+ * kept. Finished runs are recorded in the sync_runs table.
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.SyncJob = exports.IDLE_SYNC_STATUS = void 0;
+exports.IDLE_SYNC_STATUS = {
+    state: 'idle',
+    trigger: null,
+    provider: null,
+    startedAt: null,
+    progress: {},
+    cancelRequested: false,
+};
+// Minimum time between progress reports; state changes are reported right away
+const PROGRESS_INTERVAL_MS = 100;
+class SyncJob {
+    constructor(trigger, report) {
+        this.trigger = trigger;
+        this.report = report;
+        this.startedAt = new Date().toISOString();
+        this.startTime = Date.now();
+        this.state = 'scanning';
+        this.provider = null;
+        this.progress = {};
+        this.lastReportTime = 0;
+        this.cancelRequested = false;
+        this.counts = { added: 0, updated: 0, deleted: 0 };
+    }
+    get cancelled() {
+        return this.cancelRequested;
+    }
+    /**
+     * Stop after the files being parsed right now
+     */
+    cancel() {
+        if (this.cancelRequested)
+            return;
+        this.cancelRequested = true;
+        this.emit();
+    }
+    setState(state, provider) {
+        this.state = state;
+        this.provider = provider;
+        this.emit();
+    }
+    setProgress(provider, done, total) {
+        this.progress = { ...this.progress, [provider]: { done, total } };
+        if (done > 0 && done < total && Date.now() - this.lastReportTime < PROGRESS_INTERVAL_MS)
+            return;
+        this.emit();
+    }
+    addCounts(counts) {
+        this.counts.added += counts.added;
+        this.counts.updated += counts.updated;
+        this.counts.deleted += counts.deleted;
+    }
+    status() {
+        return {
+            state: this.state,
+            trigger: this.trigger,
+            provider: this.provider,
+            startedAt: this.startedAt,
+            progress: this.progress,
+            cancelRequested: this.cancelRequested,
+        };
+    }
+    /**
+     * The finished run, as recorded in the history
+     */
+    toRun(outcome, error = null) {
+        return {
+            trigger: this.trigger,
+            startedAt: this.startedAt,
+            durationMs: Date.now() - this.startTime,
+            outcome,
+            ...this.counts,
+            error,
+        };
+    }
+    emit() {
+        this.lastReportTime = Date.now();
+        this.report(this.status());
+    }
+}
+exports.SyncJob = SyncJob;
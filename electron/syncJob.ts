@@ -0,0 +1,139 @@
+/**
+ * Sync Job - One run of syncing session files into the database
+ *
+ * A sync goes through each provider in turn: listing its files (scanning),
+ * parsing the changed ones on the parse pool while finished batches are
+ * stored (parsing), then storing the rest and archiving deleted files
+ * (writing). The job tracks where it is for the status shown in the title
+ * bar, and can be cancelled between files; what was parsed until then is
+ * kept. Finished runs are recorded in the sync_runs table.
+ */
+
+import type { Provider } from './parser'
+
+export type SyncState = 'idle' | 'scanning' | 'parsing' | 'writing'
+
+// 'manual' from the refresh button, 'auto' when the window loads or refreshes its data
+export type SyncTrigger = 'manual' | 'auto'
+
+export type SyncOutcome = 'completed' | 'cancelled' | 'failed'
+
+// Files checked so far per provider; a provider is absent until its files are listed
+export type SyncProgress = Partial<Record<Provider, { done: number; total: number }>>
+
+export interface SyncStatus {
+  state: SyncState
+  trigger: SyncTrigger | null
+  // Provider being worked on
+  provider: Provider | null
+  startedAt: string | null
+  progress: SyncProgress
+  cancelRequested: boolean
+}
+
+export interface SyncRun {
+  id: number
+  trigger: SyncTrigger
+  startedAt: string
+  durationMs: number
+  outcome: SyncOutcome
+  added: number
+  updated: number
+  deleted: number
+  error: string | null
+}
+
+export interface SyncCounts {
+  added: number
+  updated: number
+  deleted: number
+}
+
+export const IDLE_SYNC_STATUS: SyncStatus = {
+  state: 'idle',
+  trigger: null,
+  provider: null,
+  startedAt: null,
+  progress: {},
+  cancelRequested: false,
+}
+
+// Minimum time between progress reports; state changes are reported right away
+const PROGRESS_INTERVAL_MS = 100
+
+export class SyncJob {
+  readonly startedAt = new Date().toISOString()
+  private startTime = Date.now()
+  private state: SyncState = 'scanning'
+  private provider: Provider | null = null
+  private progress: SyncProgress = {}
+  private lastReportTime = 0
+  private cancelRequested = false
+  private counts: SyncCounts = { added: 0, updated: 0, deleted: 0 }
+
+  constructor(
+    readonly trigger: SyncTrigger,
+    private report: (status: SyncStatus) => void
+  ) {}
+
+  get cancelled(): boolean {
+    return this.cancelRequested
+  }
+
+  /**
+   * Stop after the files being parsed right now
+   */
+  cancel(): void {
+    if (this.cancelRequested) return
+    this.cancelRequested = true
+    this.emit()
+  }
+
+  setState(state: SyncState, provider: Provider): void {
+    this.state = state
+    this.provider = provider
+    this.emit()
+  }
+
+  setProgress(provider: Provider, done: number, total: number): void {
+    this.progress = { ...this.progress, [provider]: { done, total } }
+    if (done > 0 && done < total && Date.now() - this.lastReportTime < PROGRESS_INTERVAL_MS) return
+    this.emit()
+  }
+
+  addCounts(counts: SyncCounts): void {
+    this.counts.added += counts.added
+    this.counts.updated += counts.updated
+    this.counts.deleted += counts.deleted
+  }
+
+  status(): SyncStatus {
+    return {
+      state: this.state,
+      trigger: this.trigger,
+      provider: this.provider,
+      startedAt: this.startedAt,
+      progress: this.progress,
+      cancelRequested: this.cancelRequested,
+    }
+  }
+
+  /**
+   * The finished run, as recorded in the history
+   */
+  toRun(outcome: SyncOutcome, error: string | null = null): Omit<SyncRun, 'id'> {
+    return {
+      trigger: this.trigger,
+      startedAt: this.startedAt,
+      durationMs: Date.now() - this.startTime,
+      outcome,
+      ...this.counts,
+      error,
+    }
+  }
+
+  private emit(): void {
+    this.lastReportTime = Date.now()
+    this.report(this.status())
+  }
+}
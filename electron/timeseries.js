@@ -0,0 +1,157 @@
+"use strict";
+/**
+ * Time Series - Bucketed usage metrics over arbitrary ranges
+ *
+ * Buckets are aligned to the caller's local time via a fixed UTC offset, so
+ * hour/day/week/month boundaries match what the user sees on the chart axis.
+ * Weeks start on Monday. Every bucket in the range is returned, empty ones
+ * included, so charts get a continuous axis.
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.offsetModifier = offsetModifier;
+exports.bucketExpression = bucketExpression;
+exports.groupExpression = groupExpression;
+exports.metricExpression = metricExpression;
+exports.queryTimeseries = queryTimeseries;
+// Guards against e.g. minute buckets over a whole year
+const MAX_BUCKETS = 5000;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+// Bucket label lengths of a shifted ISO timestamp; must match bucketExpression()
+const LABEL_LENGTH = {
+    minute: 16,
+    hour: 13,
+    day: 10,
+    week: 10,
+    month: 7,
+};
+/**
+ * SQLite date modifier shifting UTC timestamps to local time
+ */
+function offsetModifier(tzOffsetMinutes) {
+    const minutes = Math.round(tzOffsetMinutes);
+    return `${minutes >= 0 ? '+' : '-'}${Math.abs(minutes)} minutes`;
+}
+/**
+ * SQL expression mapping usage_events.timestamp to its bucket label.
+ * `offset` is a SQLite date modifier such as '+120 minutes'.
+ */
+function bucketExpression(bucket) {
+    switch (bucket) {
+        case 'minute':
+            return "strftime('%Y-%m-%dT%H:%M', timestamp, ?)";
+        case 'hour':
+            return "strftime('%Y-%m-%dT%H', timestamp, ?)";
+        case 'day':
+            return 'date(timestamp, ?)';
+        case 'week':
+            // Forward to Sunday, then back to that week's Monday
+            return "date(timestamp, ?, 'weekday 0', '-6 days')";
+        case 'month':
+            return "strftime('%Y-%m', timestamp, ?)";
+    }
+}
+function groupExpression(groupBy) {
+    switch (groupBy) {
+        case 'provider':
+            return 'provider';
+        case 'model':
+            return "COALESCE(model, 'unknown')";
+        case 'project':
+            // Same keys as UsageData.byProject
+            return "COALESCE(project, provider || '-sessions')";
+    }
+}
+function metricExpression(metric) {
+    switch (metric) {
+        case 'tokens':
+            return 'SUM(input_tokens + output_tokens)';
+        case 'inputTokens':
+            return 'SUM(input_tokens)';
+        case 'outputTokens':
+            return 'SUM(output_tokens)';
+        case 'reasoningTokens':
+            return 'SUM(reasoning_output_tokens)';
+        case 'cacheReadTokens':
+            return 'SUM(cache_read_tokens + cached_input_tokens)';
+        case 'cost':
+            return 'SUM(cost_usd)';
+        case 'turns':
+            return 'COUNT(*)';
+        case 'sessions':
+            return 'COUNT(DISTINCT session_path)';
+    }
+}
+/**
+ * Start of the bucket containing a shifted (local) time
+ */
+function floorBucket(shifted, bucket) {
+    const date = new Date(shifted);
+    switch (bucket) {
+        case 'minute':
+            return Math.floor(shifted / MINUTE_MS) * MINUTE_MS;
+        case 'hour':
+            return Math.floor(shifted / HOUR_MS) * HOUR_MS;
+        case 'day':
+            return Math.floor(shifted / DAY_MS) * DAY_MS;
+        case 'week': {
+            const day = Math.floor(shifted / DAY_MS) * DAY_MS;
+            return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+        }
+        case 'month':
+            return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+    }
+}
+function nextBucket(shifted, bucket) {
+    switch (bucket) {
+        case 'minute':
+            return shifted + MINUTE_MS;
+        case 'hour':
+            return shifted + HOUR_MS;
+        case 'day':
+            return shifted + DAY_MS;
+        case 'week':
+            return shifted + 7 * DAY_MS;
+        case 'month': {
+            const date = new Date(shifted);
+            return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+        }
+    }
+}
+/**
+ * Run a time series query against the usage events
+ */
+function queryTimeseries(db, query) {
+    const startMs = new Date(query.start).getTime();
+    const endMs = new Date(query.end).getTime();
+    if (isNaN(startMs) || isNaN(endMs) || endMs <= startMs) {
+        throw new Error('Invalid time series range');
+    }
+    if (!(query.bucket in LABEL_LENGTH)) {
+        throw new Error(`Unknown bucket size: ${query.bucket}`);
+    }
+    const offsetMs = Math.round(query.tzOffsetMinutes || 0) * MINUTE_MS;
+    // Enumerate buckets in shifted time, keyed by the label SQL will produce
+    const points = [];
+    const byLabel = new Map();
+    for (let shifted = floorBucket(startMs + offsetMs, query.bucket); shifted < endMs + offsetMs; shifted = nextBucket(shifted, query.bucket)) {
+        if (points.length >= MAX_BUCKETS) {
+            throw new Error(`Range too large for ${query.bucket} buckets`);
+        }
+        const point = { time: new Date(shifted - offsetMs).toISOString(), values: {}, total: 0 };
+        points.push(point);
+        byLabel.set(new Date(shifted).toISOString().slice(0, LABEL_LENGTH[query.bucket]), point);
+    }
+    const rows = db.getTimeseriesRows(bucketExpression(query.bucket), groupExpression(query.groupBy), metricExpression(query.metric), offsetModifier(offsetMs / MINUTE_MS), new Date(startMs).toISOString(), new Date(endMs).toISOString(), query.account || null);
+    const groups = new Set();
+    for (const row of rows) {
+        const point = byLabel.get(row.bucket);
+        if (!point)
+            continue;
+        point.values[row.group] = row.value;
+        point.total += row.value;
+        groups.add(row.group);
+    }
+    return { bucket: query.bucket, groups: [...groups].sort(), points };
+}
@@ -0,0 +1,208 @@
+"use strict";
+/**
+ * Transcripts - Read-only conversation view of a session file
+ *
+ * Flattens Claude and Codex logs into a single list of entries: user prompts,
+ * assistant text, tool calls and tool results. Thinking/reasoning blocks and
+ * the context Codex injects ahead of the first prompt are left out.
+ */
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || (function () {
+    var ownKeys = function(o) {
+        ownKeys = Object.getOwnPropertyNames || function (o) {
+            var ar = [];
+            for (var k in o) if (Object.prototype.hasOwnProperty.call(o, k)) ar[ar.length] = k;
+            return ar;
+        };
+        return ownKeys(o);
+    };
+    return function (mod) {
+        if (mod && mod.__esModule) return mod;
+        var result = {};
+        if (mod != null) for (var k = ownKeys(mod), i = 0; i < k.length; i++) if (k[i] !== "default") __createBinding(result, mod, k[i]);
+        __setModuleDefault(result, mod);
+        return result;
+    };
+})();
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.claudeEventEntries = claudeEventEntries;
+exports.codexEventEntries = codexEventEntries;
+exports.readTranscript = readTranscript;
+const fs = __importStar(require("fs"));
+const readline = __importStar(require("readline"));
+// Longest text kept per entry; huge tool outputs would otherwise bloat the IPC payload
+const MAX_ENTRY_LENGTH = 50000;
+// Codex prepends these as user messages before the real prompt
+const CODEX_CONTEXT_PREFIXES = ['<environment_context>', '<user_instructions>', '# AGENTS.md'];
+function makeEntry(kind, timestamp, text, extra = {}) {
+    const entry = { kind, timestamp, text, ...extra };
+    if (text.length > MAX_ENTRY_LENGTH) {
+        entry.text = text.slice(0, MAX_ENTRY_LENGTH);
+        entry.truncated = true;
+    }
+    return entry;
+}
+function formatToolInput(input) {
+    if (typeof input === 'string') {
+        try {
+            return JSON.stringify(JSON.parse(input), null, 2);
+        }
+        catch {
+            return input;
+        }
+    }
+    return JSON.stringify(input ?? {}, null, 2);
+}
+// Tool results are either a string or a list of content blocks
+function contentToText(content) {
+    if (typeof content === 'string')
+        return content;
+    if (!Array.isArray(content))
+        return '';
+    return content
+        .map((block) => (block.type === 'image' ? '[image]' : block.text || ''))
+        .filter(text => text)
+        .join('\n');
+}
+async function* readJsonLines(filePath) {
+    const rl = readline.createInterface({
+        input: fs.createReadStream(filePath),
+        crlfDelay: Infinity,
+    });
+    for await (const line of rl) {
+        if (!line.trim())
+            continue;
+        try {
+            yield JSON.parse(line);
+        }
+        catch {
+            // Skip invalid JSON lines
+        }
+    }
+}
+/**
+ * Transcript entries of one Claude log line. `toolNames` maps tool_use ids to
+ * names across lines so results can be labelled with the tool they answer.
+ */
+function claudeEventEntries(event, toolNames) {
+    if ((event.type !== 'user' && event.type !== 'assistant') || event.isMeta)
+        return [];
+    const timestamp = event.timestamp || null;
+    const content = event.message?.content;
+    if (typeof content === 'string') {
+        return content.trim() ? [makeEntry(event.type, timestamp, content)] : [];
+    }
+    if (!Array.isArray(content))
+        return [];
+    const entries = [];
+    for (const block of content) {
+        if (block.type === 'text' && block.text?.trim()) {
+            entries.push(makeEntry(event.type, timestamp, block.text));
+        }
+        else if (block.type === 'tool_use') {
+            toolNames.set(block.id, block.name);
+            entries.push(makeEntry('tool-call', timestamp, formatToolInput(block.input), { toolName: block.name }));
+        }
+        else if (block.type === 'tool_result') {
+            entries.push(makeEntry('tool-result', timestamp, contentToText(block.content), {
+                toolName: toolNames.get(block.tool_use_id),
+                isError: block.is_error === true,
+            }));
+        }
+    }
+    return entries;
+}
+// Shell outputs are wrapped as {"output": "...", "metadata": {"exit_code": n}}
+function parseCodexOutput(output) {
+    if (typeof output !== 'string')
+        return { text: contentToText(output), isError: false };
+    try {
+        const parsed = JSON.parse(output);
+        if (parsed && typeof parsed.output === 'string') {
+            const exitCode = parsed.metadata?.exit_code;
+            return { text: parsed.output, isError: typeof exitCode === 'number' && exitCode !== 0 };
+        }
+    }
+    catch {
+        // Plain text output
+    }
+    return { text: output, isError: false };
+}
+/**
+ * Transcript entries of one Codex log line; `toolNames` maps call ids to names.
+ * event_msg lines repeat the messages, so only response items are read.
+ */
+function codexEventEntries(event, toolNames) {
+    if (event.type !== 'response_item' || !event.payload)
+        return [];
+    const payload = event.payload;
+    const timestamp = event.timestamp || null;
+    switch (payload.type) {
+        case 'message': {
+            if (payload.role !== 'user' && payload.role !== 'assistant')
+                return [];
+            const text = contentToText(payload.content);
+            if (!text.trim())
+                return [];
+            if (payload.role === 'user' && CODEX_CONTEXT_PREFIXES.some(prefix => text.trimStart().startsWith(prefix)))
+                return [];
+            return [makeEntry(payload.role, timestamp, text)];
+        }
+        case 'function_call':
+        case 'custom_tool_call':
+            toolNames.set(payload.call_id, payload.name);
+            return [makeEntry('tool-call', timestamp, formatToolInput(payload.arguments ?? payload.input), { toolName: payload.name })];
+        case 'local_shell_call':
+            toolNames.set(payload.call_id, 'shell');
+            return [makeEntry('tool-call', timestamp, (payload.action?.command || []).join(' '), { toolName: 'shell' })];
+        case 'function_call_output':
+        case 'custom_tool_call_output': {
+            const { text, isError } = parseCodexOutput(payload.output);
+            return [makeEntry('tool-result', timestamp, text, { toolName: toolNames.get(payload.call_id), isError })];
+        }
+        default:
+            return [];
+    }
+}
+async function readEntries(filePath, eventEntries) {
+    const entries = [];
+    const toolNames = new Map();
+    for await (const event of readJsonLines(filePath)) {
+        entries.push(...eventEntries(event, toolNames));
+    }
+    return entries;
+}
+/**
+ * Read the transcript of a Claude or Codex session file
+ */
+async function readTranscript(provider, filePath) {
+    if (!fs.existsSync(filePath)) {
+        throw new Error('Session file no longer exists');
+    }
+    switch (provider) {
+        case 'claude':
+            return { path: filePath, provider, entries: await readEntries(filePath, claudeEventEntries) };
+        case 'codex':
+            if (!filePath.endsWith('.jsonl')) {
+                throw new Error('Transcripts are only available for JSONL Codex sessions');
+            }
+            return { path: filePath, provider, entries: await readEntries(filePath, codexEventEntries) };
+        default:
+            throw new Error('Transcripts are only available for Claude and Codex sessions');
+    }
+}
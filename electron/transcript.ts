@@ -0,0 +1,202 @@
+/**
+ * Transcripts - Read-only conversation view of a session file
+ *
+ * Flattens Claude and Codex logs into a single list of entries: user prompts,
+ * assistant text, tool calls and tool results. Thinking/reasoning blocks and
+ * the context Codex injects ahead of the first prompt are left out.
+ */
+
+import * as fs from 'fs'
+import * as readline from 'readline'
+import type { Provider } from './parser'
+
+export type TranscriptEntryKind = 'user' | 'assistant' | 'tool-call' | 'tool-result'
+
+export interface TranscriptEntry {
+  kind: TranscriptEntryKind
+  timestamp: string | null
+  text: string
+  // Tool calls and results only
+  toolName?: string
+  isError?: boolean
+  // Text was cut at MAX_ENTRY_LENGTH
+  truncated?: boolean
+}
+
+export interface Transcript {
+  path: string
+  provider: Provider
+  entries: TranscriptEntry[]
+}
+
+// Longest text kept per entry; huge tool outputs would otherwise bloat the IPC payload
+const MAX_ENTRY_LENGTH = 50_000
+
+// Codex prepends these as user messages before the real prompt
+const CODEX_CONTEXT_PREFIXES = ['<environment_context>', '<user_instructions>', '# AGENTS.md']
+
+function makeEntry(
+  kind: TranscriptEntryKind,
+  timestamp: string | null,
+  text: string,
+  extra: Pick<TranscriptEntry, 'toolName' | 'isError'> = {}
+): TranscriptEntry {
+  const entry: TranscriptEntry = { kind, timestamp, text, ...extra }
+  if (text.length > MAX_ENTRY_LENGTH) {
+    entry.text = text.slice(0, MAX_ENTRY_LENGTH)
+    entry.truncated = true
+  }
+  return entry
+}
+
+function formatToolInput(input: unknown): string {
+  if (typeof input === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(input), null, 2)
+    } catch {
+      return input
+    }
+  }
+  return JSON.stringify(input ?? {}, null, 2)
+}
+
+// Tool results are either a string or a list of content blocks
+function contentToText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+  return content
+    .map((block: { type?: string; text?: string }) => (block.type === 'image' ? '[image]' : block.text || ''))
+    .filter(text => text)
+    .join('\n')
+}
+
+async function* readJsonLines(filePath: string): AsyncGenerator<any> {
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  })
+
+  for await (const line of rl) {
+    if (!line.trim()) continue
+    try {
+      yield JSON.parse(line)
+    } catch {
+      // Skip invalid JSON lines
+    }
+  }
+}
+
+/**
+ * Transcript entries of one Claude log line. `toolNames` maps tool_use ids to
+ * names across lines so results can be labelled with the tool they answer.
+ */
+export function claudeEventEntries(event: any, toolNames: Map<string, string>): TranscriptEntry[] {
+  if ((event.type !== 'user' && event.type !== 'assistant') || event.isMeta) return []
+
+  const timestamp = event.timestamp || null
+  const content = event.message?.content
+
+  if (typeof content === 'string') {
+    return content.trim() ? [makeEntry(event.type, timestamp, content)] : []
+  }
+  if (!Array.isArray(content)) return []
+
+  const entries: TranscriptEntry[] = []
+  for (const block of content) {
+    if (block.type === 'text' && block.text?.trim()) {
+      entries.push(makeEntry(event.type, timestamp, block.text))
+    } else if (block.type === 'tool_use') {
+      toolNames.set(block.id, block.name)
+      entries.push(makeEntry('tool-call', timestamp, formatToolInput(block.input), { toolName: block.name }))
+    } else if (block.type === 'tool_result') {
+      entries.push(makeEntry('tool-result', timestamp, contentToText(block.content), {
+        toolName: toolNames.get(block.tool_use_id),
+        isError: block.is_error === true,
+      }))
+    }
+  }
+  return entries
+}
+
+// Shell outputs are wrapped as {"output": "...", "metadata": {"exit_code": n}}
+function parseCodexOutput(output: unknown): { text: string; isError: boolean } {
+  if (typeof output !== 'string') return { text: contentToText(output), isError: false }
+  try {
+    const parsed = JSON.parse(output)
+    if (parsed && typeof parsed.output === 'string') {
+      const exitCode = parsed.metadata?.exit_code
+      return { text: parsed.output, isError: typeof exitCode === 'number' && exitCode !== 0 }
+    }
+  } catch {
+    // Plain text output
+  }
+  return { text: output, isError: false }
+}
+
+/**
+ * Transcript entries of one Codex log line; `toolNames` maps call ids to names.
+ * event_msg lines repeat the messages, so only response items are read.
+ */
+export function codexEventEntries(event: any, toolNames: Map<string, string>): TranscriptEntry[] {
+  if (event.type !== 'response_item' || !event.payload) return []
+
+  const payload = event.payload
+  const timestamp = event.timestamp || null
+
+  switch (payload.type) {
+    case 'message': {
+      if (payload.role !== 'user' && payload.role !== 'assistant') return []
+      const text = contentToText(payload.content)
+      if (!text.trim()) return []
+      if (payload.role === 'user' && CODEX_CONTEXT_PREFIXES.some(prefix => text.trimStart().startsWith(prefix))) return []
+      return [makeEntry(payload.role, timestamp, text)]
+    }
+    case 'function_call':
+    case 'custom_tool_call':
+      toolNames.set(payload.call_id, payload.name)
+      return [makeEntry('tool-call', timestamp, formatToolInput(payload.arguments ?? payload.input), { toolName: payload.name })]
+    case 'local_shell_call':
+      toolNames.set(payload.call_id, 'shell')
+      return [makeEntry('tool-call', timestamp, (payload.action?.command || []).join(' '), { toolName: 'shell' })]
+    case 'function_call_output':
+    case 'custom_tool_call_output': {
+      const { text, isError } = parseCodexOutput(payload.output)
+      return [makeEntry('tool-result', timestamp, text, { toolName: toolNames.get(payload.call_id), isError })]
+    }
+    default:
+      return []
+  }
+}
+
+async function readEntries(
+  filePath: string,
+  eventEntries: (event: any, toolNames: Map<string, string>) => TranscriptEntry[]
+): Promise<TranscriptEntry[]> {
+  const entries: TranscriptEntry[] = []
+  const toolNames = new Map<string, string>()
+  for await (const event of readJsonLines(filePath)) {
+    entries.push(...eventEntries(event, toolNames))
+  }
+  return entries
+}
+
+/**
+ * Read the transcript of a Claude or Codex session file
+ */
+export async function readTranscript(provider: Provider, filePath: string): Promise<Transcript> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error('Session file no longer exists')
+  }
+
+  switch (provider) {
+    case 'claude':
+      return { path: filePath, provider, entries: await readEntries(filePath, claudeEventEntries) }
+    case 'codex':
+      if (!filePath.endsWith('.jsonl')) {
+        throw new Error('Transcripts are only available for JSONL Codex sessions')
+      }
+      return { path: filePath, provider, entries: await readEntries(filePath, codexEventEntries) }
+    default:
+      throw new Error('Transcripts are only available for Claude and Codex sessions')
+  }
+}
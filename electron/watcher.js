@@ -0,0 +1,180 @@
+"use strict";
+/**
+ * Watcher - Live updates from the session directories
+ *
+ * Watches the session roots for session files being written. Agents append
+ * several lines per turn, so changes are collected until the directories
+ * have been quiet for a moment and then handed over in one batch, letting
+ * the parser re-read just those files.
+ */
+var __createBinding = (this && this.__createBinding) || (Object.create ? (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    var desc = Object.getOwnPropertyDescriptor(m, k);
+    if (!desc || ("get" in desc ? !m.__esModule : desc.writable || desc.configurable)) {
+      desc = { enumerable: true, get: function() { return m[k]; } };
+    }
+    Object.defineProperty(o, k2, desc);
+}) : (function(o, m, k, k2) {
+    if (k2 === undefined) k2 = k;
+    o[k2] = m[k];
+}));
+var __setModuleDefault = (this && this.__setModuleDefault) || (Object.create ? (function(o, v) {
+    Object.defineProperty(o, "default", { enumerable: true, value: v });
+}) : function(o, v) {
+    o["default"] = v;
+});
+var __importStar = (this && this.__importStar) || (function () {
+    var ownKeys = function(o) {
+        ownKeys = Object.getOwnPropertyNames || function (o) {
+            var ar = [];
+            for (var k in o) if (Object.prototype.hasOwnProperty.call(o, k)) ar[ar.length] = k;
+            return ar;
+        };
+        return ownKeys(o);
+    };
+    return function (mod) {
+        if (mod && mod.__esModule) return mod;
+        var result = {};
+        if (mod != null) for (var k = ownKeys(mod), i = 0; i < k.length; i++) if (k[i] !== "default") __createBinding(result, mod, k[i]);
+        __setModuleDefault(result, mod);
+        return result;
+    };
+})();
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.SessionWatcher = void 0;
+const fs = __importStar(require("fs"));
+const path = __importStar(require("path"));
+// Quiet time after the last change before a batch is handed over
+const DEBOUNCE_MS = 1000;
+const SESSION_EXTENSIONS = ['.jsonl', '.json'];
+class SessionWatcher {
+    constructor(onChange) {
+        this.onChange = onChange;
+        this.watchers = new Map();
+        this.changes = new Map();
+        this.timer = null;
+        // A batch is being handled; changes meanwhile wait for the next one
+        this.busy = false;
+    }
+    /**
+     * Start watching every session root that exists; call again with the new
+     * roots when they change
+     */
+    start(roots) {
+        this.stop();
+        for (const [provider, providerRoots] of Object.entries(roots)) {
+            for (const root of providerRoots) {
+                this.watchTree(provider, root.path, false);
+            }
+        }
+    }
+    stop() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        for (const watcher of this.watchers.values()) {
+            watcher.close();
+        }
+        this.watchers.clear();
+        this.changes.clear();
+    }
+    /**
+     * Watch a directory and everything below it. Recursive fs.watch isn't
+     * available on Linux, so each directory gets its own watcher.
+     * With `queueFiles`, session files already inside count as changed
+     * (a new directory may be written to before its watcher is attached).
+     */
+    watchTree(provider, dir, queueFiles) {
+        if (this.watchers.has(dir))
+            return;
+        let entries;
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+            const watcher = fs.watch(dir, (_eventType, filename) => {
+                if (filename)
+                    this.handleChange(provider, path.join(dir, filename.toString()));
+            });
+            watcher.on('error', () => this.unwatchTree(dir));
+            this.watchers.set(dir, watcher);
+        }
+        catch {
+            // Missing or unreadable directory
+            return;
+        }
+        for (const entry of entries) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                this.watchTree(provider, fullPath, queueFiles);
+            }
+            else if (queueFiles && this.isSessionFile(entry.name)) {
+                this.queue(provider, fullPath);
+            }
+        }
+    }
+    /**
+     * Stop watching a directory that was removed, and everything below it
+     */
+    unwatchTree(dir) {
+        for (const [watchedDir, watcher] of this.watchers) {
+            if (watchedDir === dir || watchedDir.startsWith(dir + path.sep)) {
+                watcher.close();
+                this.watchers.delete(watchedDir);
+            }
+        }
+    }
+    handleChange(provider, fullPath) {
+        let stat = null;
+        try {
+            stat = fs.statSync(fullPath);
+        }
+        catch {
+            // Deleted or renamed away
+        }
+        if (stat?.isDirectory()) {
+            this.watchTree(provider, fullPath, true);
+        }
+        else if (this.isSessionFile(fullPath)) {
+            this.queue(provider, fullPath);
+        }
+        else if (!stat && this.watchers.has(fullPath)) {
+            this.unwatchTree(fullPath);
+        }
+    }
+    isSessionFile(name) {
+        return SESSION_EXTENSIONS.some((ext) => name.endsWith(ext));
+    }
+    queue(provider, filePath) {
+        if (!this.changes.has(provider))
+            this.changes.set(provider, new Set());
+        this.changes.get(provider).add(filePath);
+        if (this.timer)
+            clearTimeout(this.timer);
+        this.timer = setTimeout(() => this.flush(), DEBOUNCE_MS);
+    }
+    async flush() {
+        this.timer = null;
+        if (this.busy || this.changes.size === 0)
+            return;
+        const changes = new Map();
+        for (const [provider, files] of this.changes) {
+            changes.set(provider, [...files]);
+        }
+        this.changes.clear();
+        this.busy = true;
+        try {
+            await this.onChange(changes);
+        }
+        catch (error) {
+            console.error('[Watcher] Failed to sync changed files:', error);
+        }
+        finally {
+            this.busy = false;
+        }
+        // Pick up whatever changed while the batch was being handled
+        if (this.changes.size > 0 && !this.timer) {
+            this.timer = setTimeout(() => this.flush(), DEBOUNCE_MS);
+        }
+    }
+}
+exports.SessionWatcher = SessionWatcher;
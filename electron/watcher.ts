@@ -0,0 +1,153 @@
+/**
+ * Watcher - Live updates from the session directories
+ *
+ * Watches the session roots for session files being written. Agents append
+ * several lines per turn, so changes are collected until the directories
+ * have been quiet for a moment and then handed over in one batch, letting
+ * the parser re-read just those files.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type { Provider } from './parser'
+import type { SessionRoot } from './roots'
+
+// Quiet time after the last change before a batch is handed over
+const DEBOUNCE_MS = 1000
+
+const SESSION_EXTENSIONS = ['.jsonl', '.json']
+
+export type ChangeHandler = (changes: Map<Provider, string[]>) => Promise<void>
+
+export class SessionWatcher {
+  private watchers = new Map<string, fs.FSWatcher>()
+  private changes = new Map<Provider, Set<string>>()
+  private timer: NodeJS.Timeout | null = null
+  // A batch is being handled; changes meanwhile wait for the next one
+  private busy = false
+
+  constructor(private onChange: ChangeHandler) {}
+
+  /**
+   * Start watching every session root that exists; call again with the new
+   * roots when they change
+   */
+  start(roots: Record<Provider, SessionRoot[]>): void {
+    this.stop()
+    for (const [provider, providerRoots] of Object.entries(roots) as [Provider, SessionRoot[]][]) {
+      for (const root of providerRoots) {
+        this.watchTree(provider, root.path, false)
+      }
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close()
+    }
+    this.watchers.clear()
+    this.changes.clear()
+  }
+
+  /**
+   * Watch a directory and everything below it. Recursive fs.watch isn't
+   * available on Linux, so each directory gets its own watcher.
+   * With `queueFiles`, session files already inside count as changed
+   * (a new directory may be written to before its watcher is attached).
+   */
+  private watchTree(provider: Provider, dir: string, queueFiles: boolean): void {
+    if (this.watchers.has(dir)) return
+
+    let entries: fs.Dirent[]
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true })
+      const watcher = fs.watch(dir, (_eventType, filename) => {
+        if (filename) this.handleChange(provider, path.join(dir, filename.toString()))
+      })
+      watcher.on('error', () => this.unwatchTree(dir))
+      this.watchers.set(dir, watcher)
+    } catch {
+      // Missing or unreadable directory
+      return
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        this.watchTree(provider, fullPath, queueFiles)
+      } else if (queueFiles && this.isSessionFile(entry.name)) {
+        this.queue(provider, fullPath)
+      }
+    }
+  }
+
+  /**
+   * Stop watching a directory that was removed, and everything below it
+   */
+  private unwatchTree(dir: string): void {
+    for (const [watchedDir, watcher] of this.watchers) {
+      if (watchedDir === dir || watchedDir.startsWith(dir + path.sep)) {
+        watcher.close()
+        this.watchers.delete(watchedDir)
+      }
+    }
+  }
+
+  private handleChange(provider: Provider, fullPath: string): void {
+    let stat: fs.Stats | null = null
+    try {
+      stat = fs.statSync(fullPath)
+    } catch {
+      // Deleted or renamed away
+    }
+
+    if (stat?.isDirectory()) {
+      this.watchTree(provider, fullPath, true)
+    } else if (this.isSessionFile(fullPath)) {
+      this.queue(provider, fullPath)
+    } else if (!stat && this.watchers.has(fullPath)) {
+      this.unwatchTree(fullPath)
+    }
+  }
+
+  private isSessionFile(name: string): boolean {
+    return SESSION_EXTENSIONS.some((ext) => name.endsWith(ext))
+  }
+
+  private queue(provider: Provider, filePath: string): void {
+    if (!this.changes.has(provider)) this.changes.set(provider, new Set())
+    this.changes.get(provider)!.add(filePath)
+
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = setTimeout(() => this.flush(), DEBOUNCE_MS)
+  }
+
+  private async flush(): Promise<void> {
+    this.timer = null
+    if (this.busy || this.changes.size === 0) return
+
+    const changes = new Map<Provider, string[]>()
+    for (const [provider, files] of this.changes) {
+      changes.set(provider, [...files])
+    }
+    this.changes.clear()
+
+    this.busy = true
+    try {
+      await this.onChange(changes)
+    } catch (error) {
+      console.error('[Watcher] Failed to sync changed files:', error)
+    } finally {
+      this.busy = false
+    }
+
+    // Pick up whatever changed while the batch was being handled
+    if (this.changes.size > 0 && !this.timer) {
+      this.timer = setTimeout(() => this.flush(), DEBOUNCE_MS)
+    }
+  }
+}
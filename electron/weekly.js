@@ -0,0 +1,106 @@
+"use strict";
+/**
+ * Weekly Limits - Usage within a plan's weekly window against user-configured caps
+ *
+ * The window resets at a configurable local weekday/hour. Caps are either a
+ * token budget or a number of active hours, where active time is the sum of
+ * gaps between consecutive turns that are no longer than ACTIVE_GAP_MS.
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.DEFAULT_WEEKLY_CONFIG = exports.WEEKLY_LIMITS_SETTING = void 0;
+exports.parseWeeklyConfig = parseWeeklyConfig;
+exports.getWeekWindow = getWeekWindow;
+exports.computeWeeklyUsage = computeWeeklyUsage;
+exports.WEEKLY_LIMITS_SETTING = 'weeklyLimits';
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const ACTIVE_GAP_MS = 5 * 60 * 1000;
+exports.DEFAULT_WEEKLY_CONFIG = {
+    resetWeekday: 1,
+    resetHour: 0,
+    caps: {},
+};
+/**
+ * Parse the stored setting, falling back to defaults for anything missing or invalid
+ */
+function parseWeeklyConfig(raw) {
+    try {
+        const parsed = JSON.parse(raw);
+        const weekday = Number(parsed.resetWeekday);
+        const hour = Number(parsed.resetHour);
+        return {
+            resetWeekday: Number.isInteger(weekday) && weekday >= 0 && weekday <= 6 ? weekday : exports.DEFAULT_WEEKLY_CONFIG.resetWeekday,
+            resetHour: Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : exports.DEFAULT_WEEKLY_CONFIG.resetHour,
+            caps: parsed.caps && typeof parsed.caps === 'object' ? parsed.caps : {},
+        };
+    }
+    catch {
+        return exports.DEFAULT_WEEKLY_CONFIG;
+    }
+}
+/**
+ * The weekly window containing `now`
+ */
+function getWeekWindow(config, now = Date.now()) {
+    const date = new Date(now);
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), config.resetHour);
+    const daysBack = (date.getDay() - config.resetWeekday + 7) % 7;
+    start.setDate(start.getDate() - daysBack);
+    if (start.getTime() > now) {
+        start.setDate(start.getDate() - 7);
+    }
+    return { start: start.getTime(), end: start.getTime() + WEEK_MS };
+}
+/**
+ * Active time in hours from turn timestamps (sorted or not)
+ */
+function activeHours(timestamps) {
+    const sorted = [...timestamps].sort((a, b) => a - b);
+    let activeMs = 0;
+    for (let i = 1; i < sorted.length; i++) {
+        const gap = sorted[i] - sorted[i - 1];
+        if (gap <= ACTIVE_GAP_MS)
+            activeMs += gap;
+    }
+    return activeMs / (60 * 60 * 1000);
+}
+/**
+ * Summarize an account's events for the current week against its cap
+ */
+function computeWeeklyUsage(events, cap, config, now = Date.now()) {
+    const { start, end } = getWeekWindow(config, now);
+    let tokens = 0;
+    const timestamps = [];
+    for (const event of events) {
+        const time = new Date(event.timestamp).getTime();
+        if (isNaN(time) || time < start || time >= end)
+            continue;
+        tokens += event.inputTokens + event.outputTokens;
+        timestamps.push(time);
+    }
+    const hours = activeHours(timestamps);
+    const usage = {
+        weekStart: new Date(start).toISOString(),
+        weekEnd: new Date(end).toISOString(),
+        tokens,
+        activeHours: hours,
+        cap: cap && cap.limit > 0 ? cap : null,
+        percentUsed: null,
+        projectedExhaustion: null,
+    };
+    if (!usage.cap)
+        return usage;
+    const used = usage.cap.unit === 'tokens' ? tokens : hours;
+    usage.percentUsed = (used / usage.cap.limit) * 100;
+    // Linear projection from the pace so far this week
+    const elapsed = now - start;
+    if (used >= usage.cap.limit) {
+        usage.projectedExhaustion = new Date(now).toISOString();
+    }
+    else if (used > 0 && elapsed > 0) {
+        const exhaustion = now + ((usage.cap.limit - used) / used) * elapsed;
+        if (exhaustion < end) {
+            usage.projectedExhaustion = new Date(exhaustion).toISOString();
+        }
+    }
+    return usage;
+}
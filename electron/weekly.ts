@@ -0,0 +1,145 @@
+/**
+ * Weekly Limits - Usage within a plan's weekly window against user-configured caps
+ *
+ * The window resets at a configurable local weekday/hour. Caps are either a
+ * token budget or a number of active hours, where active time is the sum of
+ * gaps between consecutive turns that are no longer than ACTIVE_GAP_MS.
+ */
+
+export const WEEKLY_LIMITS_SETTING = 'weeklyLimits'
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+const ACTIVE_GAP_MS = 5 * 60 * 1000
+
+export type WeeklyCapUnit = 'tokens' | 'hours'
+
+export interface WeeklyCap {
+  plan: string
+  unit: WeeklyCapUnit
+  limit: number
+}
+
+export interface WeeklyLimitConfig {
+  // 0 = Sunday ... 6 = Saturday, local time
+  resetWeekday: number
+  resetHour: number
+  // Keyed by account id; a provider's default account has the provider's id
+  caps: Partial<Record<string, WeeklyCap>>
+}
+
+export interface WeeklyUsage {
+  weekStart: string
+  weekEnd: string
+  tokens: number
+  activeHours: number
+  cap: WeeklyCap | null
+  percentUsed: number | null
+  // When the cap runs out at the current pace, if that happens before the reset
+  projectedExhaustion: string | null
+}
+
+export interface WeeklyEvent {
+  timestamp: string
+  inputTokens: number
+  outputTokens: number
+}
+
+export const DEFAULT_WEEKLY_CONFIG: WeeklyLimitConfig = {
+  resetWeekday: 1,
+  resetHour: 0,
+  caps: {},
+}
+
+/**
+ * Parse the stored setting, falling back to defaults for anything missing or invalid
+ */
+export function parseWeeklyConfig(raw: string): WeeklyLimitConfig {
+  try {
+    const parsed = JSON.parse(raw)
+    const weekday = Number(parsed.resetWeekday)
+    const hour = Number(parsed.resetHour)
+    return {
+      resetWeekday: Number.isInteger(weekday) && weekday >= 0 && weekday <= 6 ? weekday : DEFAULT_WEEKLY_CONFIG.resetWeekday,
+      resetHour: Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_WEEKLY_CONFIG.resetHour,
+      caps: parsed.caps && typeof parsed.caps === 'object' ? parsed.caps : {},
+    }
+  } catch {
+    return DEFAULT_WEEKLY_CONFIG
+  }
+}
+
+/**
+ * The weekly window containing `now`
+ */
+export function getWeekWindow(config: WeeklyLimitConfig, now: number = Date.now()): { start: number; end: number } {
+  const date = new Date(now)
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), config.resetHour)
+  const daysBack = (date.getDay() - config.resetWeekday + 7) % 7
+  start.setDate(start.getDate() - daysBack)
+  if (start.getTime() > now) {
+    start.setDate(start.getDate() - 7)
+  }
+  return { start: start.getTime(), end: start.getTime() + WEEK_MS }
+}
+
+/**
+ * Active time in hours from turn timestamps (sorted or not)
+ */
+function activeHours(timestamps: number[]): number {
+  const sorted = [...timestamps].sort((a, b) => a - b)
+  let activeMs = 0
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = sorted[i] - sorted[i - 1]
+    if (gap <= ACTIVE_GAP_MS) activeMs += gap
+  }
+  return activeMs / (60 * 60 * 1000)
+}
+
+/**
+ * Summarize an account's events for the current week against its cap
+ */
+export function computeWeeklyUsage(
+  events: WeeklyEvent[],
+  cap: WeeklyCap | null,
+  config: WeeklyLimitConfig,
+  now: number = Date.now()
+): WeeklyUsage {
+  const { start, end } = getWeekWindow(config, now)
+
+  let tokens = 0
+  const timestamps: number[] = []
+  for (const event of events) {
+    const time = new Date(event.timestamp).getTime()
+    if (isNaN(time) || time < start || time >= end) continue
+    tokens += event.inputTokens + event.outputTokens
+    timestamps.push(time)
+  }
+  const hours = activeHours(timestamps)
+
+  const usage: WeeklyUsage = {
+    weekStart: new Date(start).toISOString(),
+    weekEnd: new Date(end).toISOString(),
+    tokens,
+    activeHours: hours,
+    cap: cap && cap.limit > 0 ? cap : null,
+    percentUsed: null,
+    projectedExhaustion: null,
+  }
+  if (!usage.cap) return usage
+
+  const used = usage.cap.unit === 'tokens' ? tokens : hours
+  usage.percentUsed = (used / usage.cap.limit) * 100
+
+  // Linear projection from the pace so far this week
+  const elapsed = now - start
+  if (used >= usage.cap.limit) {
+    usage.projectedExhaustion = new Date(now).toISOString()
+  } else if (used > 0 && elapsed > 0) {
+    const exhaustion = now + ((usage.cap.limit - used) / used) * elapsed
+    if (exhaustion < end) {
+      usage.projectedExhaustion = new Date(exhaustion).toISOString()
+    }
+  }
+
+  return usage
+}
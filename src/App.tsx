@@ -1,13 +1,16 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { Loader2 } from 'lucide-react'
+import { Loader2, AlertTriangle } from 'lucide-react'
 import { TitleBar } from '@/components/TitleBar'
 import { Sidebar, type PageType } from '@/components/Sidebar'
 import { StatusPage } from '@/components/StatusPage'
 import { Dashboard } from '@/components/Dashboard'
 import { ProjectsPage } from '@/components/ProjectsPage'
+import { SessionsPage } from '@/components/SessionsPage'
+import { SessionDetailPage } from '@/components/SessionDetailPage'
+import { SearchPage } from '@/components/SearchPage'
 import { SettingsPage, type FontSize, type RefreshRate } from '@/components/SettingsPage'
 import { MiniView, miniWindowSizes } from '@/components/MiniView'
-import type { ProviderData, Session, UsageData } from '@/types/electron'
+import type { MessageSearchResult, ProviderData, Session, SyncStatus, UsageData } from '@/types/electron'
 
 // Window size for normal view
 const NORMAL_SIZE = { width: 1100, height: 750 }
@@ -21,6 +24,23 @@ const REFRESH_RATE_MS: Record<RefreshRate, number> = {
 
 type Platform = 'linux' | 'win32' | 'darwin' | null
 
+// Providers listed in the loading overlay (gemini is hidden throughout)
+const providerNames: Record<string, string> = {
+  claude: 'Claude',
+  codex: 'Codex',
+}
+
+interface OpenSession {
+  session: Session
+  // Opens the transcript searching for this text
+  search?: string
+}
+
+// First highlighted term of a search snippet, used to search inside the opened transcript
+function firstSnippetMatch(result: MessageSearchResult): string | undefined {
+  return result.snippet.match(/\u0002(.*?)\u0003/)?.[1]
+}
+
 // Font size CSS classes - each step +5px
 export const normalFontSizeClasses: Record<FontSize, string> = {
   small: 'text-[10px]',   // 10px
@@ -36,11 +56,22 @@ export const miniFontSizeClasses: Record<FontSize, string> = {
 
 export default function App() {
   const [initialLoading, setInitialLoading] = useState(true)
-  const [refreshing, setRefreshing] = useState(false)
+  // Background sync job in the main process; the refresh spinner follows it
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null)
+  const refreshing = !!syncStatus && syncStatus.state !== 'idle'
   const [providers, setProviders] = useState<Record<string, ProviderData>>({})
   const [sessions, setSessions] = useState<Session[]>([])
   const [usageData, setUsageData] = useState<UsageData | null>(null)
+  // Account every page is limited to; null for all accounts
+  const [accountFilter, setAccountFilter] = useState<string | null>(null)
+  // Read by the usage callbacks, which outlive renders
+  const accountFilterRef = useRef<string | null>(null)
+  // Set when usage can't be loaded at all, e.g. a failed database migration
+  const [loadError, setLoadError] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState<PageType>('status')
+  // Session shown in the detail view, over whichever page opened it
+  const [openSession, setOpenSession] = useState<OpenSession | null>(null)
+  const [searchText, setSearchText] = useState('')
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
   const [miniMode, setMiniMode] = useState(false)
   const [platform, setPlatform] = useState<Platform>(null)
@@ -77,40 +108,66 @@ export default function App() {
     loadSettings()
   }, [])
 
+  const applyUsage = useCallback((data: UsageData) => {
+    const current = accountFilterRef.current
+    if (data.account !== current) {
+      // Pushed for a filter that has changed since, unless the selected account
+      // was deleted and the main process fell back to all accounts
+      if (current === null || data.account !== null || data.accounts.some(account => account.id === current)) return
+      accountFilterRef.current = null
+      setAccountFilter(null)
+    }
+
+    setLoadError(null)
+    setUsageData(data)
+    // Filter out gemini, and providers other than the selected account's
+    const selected = data.accounts.find(account => account.id === data.account)
+    const filteredProviders = Object.fromEntries(
+      Object.entries(data.providers).filter(([key]) => key !== 'gemini' && (!selected || selected.provider === key))
+    )
+    setProviders(filteredProviders)
+
+    // Filter out gemini sessions
+    const filteredSessions = data.recentSessions.filter(
+      (s: Session) => s.provider !== 'gemini'
+    )
+    setSessions(filteredSessions)
+  }, [])
+
   const fetchData = useCallback(async () => {
     try {
-      const result = await window.electronAPI?.getAllUsage()
+      const result = await window.electronAPI?.getAllUsage(accountFilterRef.current)
+      if (result && !result.success) {
+        setLoadError(result.error || 'Failed to load usage data')
+      }
       if (result?.success && result.data) {
-        setUsageData(result.data)
-        // Filter out gemini
-        const filteredProviders = Object.fromEntries(
-          Object.entries(result.data.providers).filter(([key]) => key !== 'gemini')
-        )
-        setProviders(filteredProviders)
-
-        // Filter out gemini sessions
-        const filteredSessions = result.data.recentSessions.filter(
-          (s: Session) => s.provider !== 'gemini'
-        )
-        setSessions(filteredSessions)
+        applyUsage(result.data)
       }
     } catch (error) {
       console.error('Error loading data:', error)
     }
-  }, [])
+  }, [applyUsage])
 
   // 3. Manual refresh via button click
+  // Results arrive through onUsageUpdated once the sync finishes
   const handleRefresh = async () => {
-    setRefreshing(true)
     console.log('[App] Manual refresh triggered')
     try {
-      await window.electronAPI?.refreshData()
-      await fetchData()
+      await window.electronAPI?.startSync()
       lastRefreshRef.current = Date.now() // Reset auto-refresh timer
     } catch (error) {
       console.error('Error refreshing:', error)
     }
-    setRefreshing(false)
+  }
+
+  const handleCancelSync = () => {
+    window.electronAPI?.cancelSync()
+  }
+
+  const handleAccountChange = (account: string | null) => {
+    accountFilterRef.current = account
+    setAccountFilter(account)
+    fetchData()
   }
 
   const toggleMiniMode = async () => {
@@ -138,6 +195,12 @@ export default function App() {
     fetchData().finally(() => setInitialLoading(false))
   }, [fetchData])
 
+  // Follow sync jobs, including one already running when the window loads
+  useEffect(() => {
+    window.electronAPI?.getSyncStatus().then(setSyncStatus)
+    return window.electronAPI?.onSyncStatus(setSyncStatus)
+  }, [])
+
   // 2. Auto refresh based on user setting
   useEffect(() => {
     const refreshInterval = REFRESH_RATE_MS[refreshRate]
@@ -157,6 +220,11 @@ export default function App() {
     return () => clearInterval(intervalId)
   }, [fetchData, refreshing, refreshRate])
 
+  // 4. Live updates while session files are being written
+  useEffect(() => {
+    return window.electronAPI?.onUsageUpdated(applyUsage)
+  }, [applyUsage])
+
   // Resize mini window when font size changes
   useEffect(() => {
     if (miniMode) {
@@ -170,6 +238,7 @@ export default function App() {
     return (
       <MiniView
         providers={providers}
+        rateLimits={usageData?.rateLimits ?? null}
         onExpand={toggleMiniMode}
         onRefresh={handleRefresh}
         refreshing={refreshing}
@@ -184,30 +253,86 @@ export default function App() {
       <TitleBar
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        syncStatus={syncStatus}
+        onCancelSync={handleCancelSync}
+        accounts={usageData?.accounts || []}
+        account={accountFilter}
+        onAccountChange={handleAccountChange}
         sidebarCollapsed={sidebarCollapsed}
         onToggleSidebar={() => setSidebarCollapsed(!sidebarCollapsed)}
         onToggleMini={toggleMiniMode}
         platform={platform}
         fontSize={normalFontSize}
+        onSearch={(text) => {
+          setSearchText(text)
+          setOpenSession(null)
+          setCurrentPage('search')
+        }}
       />
 
       {/* Main Layout with Sidebar */}
       <div className="flex flex-1 overflow-hidden">
         <Sidebar
           currentPage={currentPage}
-          onPageChange={setCurrentPage}
+          onPageChange={(page) => {
+            setOpenSession(null)
+            setCurrentPage(page)
+          }}
           collapsed={sidebarCollapsed}
           fontSize={normalFontSize}
         />
 
         {/* Page Content */}
         <main className="flex-1 overflow-auto">
-          {currentPage === 'status' ? (
-            <StatusPage providers={providers} sessions={sessions} />
+          {loadError && (
+            <div className="flex items-start gap-2 mx-5 mt-4 p-3 rounded-xl border bg-red-500/[0.06] border-red-500/20 text-xs text-red-400">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <div>
+                <div className="font-medium">Usage data could not be loaded</div>
+                <div className="mt-0.5 text-red-400/80 break-words">{loadError}</div>
+              </div>
+            </div>
+          )}
+          {openSession ? (
+            <SessionDetailPage
+              key={openSession.session.path}
+              session={openSession.session}
+              search={openSession.search}
+              onBack={() => setOpenSession(null)}
+            />
+          ) : currentPage === 'status' ? (
+            <StatusPage
+              providers={providers}
+              sessions={sessions}
+              rateLimits={usageData?.rateLimits ?? null}
+              activeBlock={usageData?.activeBlock ?? null}
+              weekly={usageData?.weekly || {}}
+              accounts={usageData?.accounts || []}
+              onOpenSession={(session) => setOpenSession({ session })}
+            />
           ) : currentPage === 'dashboard' ? (
-            <Dashboard data={usageData} sessions={sessions} />
+            <Dashboard data={usageData} account={accountFilter} />
           ) : currentPage === 'projects' ? (
-            <ProjectsPage projects={usageData?.byProject || {}} />
+            <ProjectsPage
+              projects={usageData?.byProject || {}}
+              budgets={usageData?.budgets || []}
+              accounts={usageData?.accounts || []}
+            />
+          ) : currentPage === 'sessions' ? (
+            <SessionsPage
+              projects={Object.keys(usageData?.byProject || {}).sort()}
+              models={Object.keys(usageData?.byModel || {}).sort()}
+              account={accountFilter}
+              onOpenSession={(session) => setOpenSession({ session })}
+            />
+          ) : currentPage === 'search' ? (
+            <SearchPage
+              text={searchText}
+              onTextChange={setSearchText}
+              projects={Object.keys(usageData?.byProject || {}).sort()}
+              account={accountFilter}
+              onOpenResult={(result) => setOpenSession({ session: result.session, search: firstSnippetMatch(result) })}
+            />
           ) : (
             <SettingsPage
               normalFontSize={normalFontSize}
@@ -216,6 +341,9 @@ export default function App() {
               onNormalFontSizeChange={setNormalFontSize}
               onMiniFontSizeChange={setMiniFontSize}
               onRefreshRateChange={setRefreshRate}
+              onUsageSettingsChange={fetchData}
+              projects={Object.keys(usageData?.byProject || {}).sort()}
+              accounts={usageData?.accounts || []}
             />
           )}
         </main>
@@ -227,6 +355,24 @@ export default function App() {
           <div className="flex flex-col items-center gap-3">
             <Loader2 className="w-8 h-8 text-primary animate-spin" />
             <span className="text-sm text-muted-foreground">Loading...</span>
+            {Object.entries(providerNames).map(([provider, name]) => {
+              const progress = syncStatus?.progress[provider]
+              if (!progress) return null
+              return (
+                <div key={provider} className="w-48 space-y-1">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>{name}</span>
+                    <span className="font-mono">{progress.done.toLocaleString()} / {progress.total.toLocaleString()} files</span>
+                  </div>
+                  <div className="h-1 bg-white/[0.06] rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full bg-primary"
+                      style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 100}%` }}
+                    />
+                  </div>
+                </div>
+              )
+            })}
           </div>
         </div>
       )}
@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react'
+import { Users, Plus, Trash2 } from 'lucide-react'
+import type { Account, AccountConfig, PricingMode, SessionRootInfo } from '@/types/electron'
+
+interface AccountsSettingsProps {
+  // Bumped when session folders were saved, so the folder list is reloaded
+  rootsVersion: number
+  onSaved?: () => void
+}
+
+// Gemini is hidden throughout the app
+const accountProviders: { key: string; label: string; placeholder: string }[] = [
+  { key: 'claude', label: 'Claude', placeholder: 'Work' },
+  { key: 'codex', label: 'Codex', placeholder: 'Personal' },
+]
+
+const pricingModeOptions: { value: PricingMode; label: string }[] = [
+  { value: 'api', label: 'Pay per use' },
+  { value: 'subscription', label: 'Subscription' },
+]
+
+const inputClassName = 'h-8 px-2 bg-black/20 border border-white/[0.06] rounded-md text-xs text-foreground focus:outline-none focus:border-blue-500/50'
+
+export function AccountsSettings({ rootsVersion, onSaved }: AccountsSettingsProps) {
+  const [config, setConfig] = useState<AccountConfig>({ accounts: [], rootAccounts: {} })
+  const [roots, setRoots] = useState<SessionRootInfo[]>([])
+  // Name of the account being added, per provider
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [dirty, setDirty] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.electronAPI?.getAccounts().then(result => {
+      if (result?.success && result.data) setConfig(result.data)
+    })
+  }, [])
+
+  useEffect(() => {
+    window.electronAPI?.getSessionRoots().then(result => {
+      if (result?.success && result.data) setRoots(result.data)
+    })
+  }, [rootsVersion])
+
+  const update = (next: AccountConfig) => {
+    setConfig(next)
+    setDirty(true)
+  }
+
+  // Accounts are addressed by position: new ones have no id until saved
+  const updateAccount = (index: number, patch: Partial<Account>) => {
+    update({ ...config, accounts: config.accounts.map((account, idx) => (idx === index ? { ...account, ...patch } : account)) })
+  }
+
+  const handleAdd = (provider: string) => {
+    const name = (drafts[provider] || '').trim()
+    if (!name) return
+    update({ ...config, accounts: [...config.accounts, { id: '', provider, name, pricingMode: 'api' }] })
+    setDrafts({ ...drafts, [provider]: '' })
+  }
+
+  const handleRemove = (index: number) => {
+    const removed = config.accounts[index]
+    // Its folders go back to the provider's default account
+    const rootAccounts = Object.fromEntries(Object.entries(config.rootAccounts).filter(([, id]) => id !== removed.id))
+    update({ accounts: config.accounts.filter((_, idx) => idx !== index), rootAccounts })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    const result = await window.electronAPI?.saveAccounts(config)
+    if (result?.success && result.data) {
+      setConfig(result.data)
+      setDirty(false)
+    } else if (result?.error) {
+      setError(result.error)
+    }
+    setSaving(false)
+    onSaved?.()
+  }
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04]">
+      <div className="flex items-center gap-3 mb-3">
+        <div className="w-8 h-8 flex items-center justify-center bg-sky-500/10 rounded-lg">
+          <Users className="w-4 h-4 text-sky-400" />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Accounts</h3>
+          <p className="text-xs text-muted-foreground">
+            Keep separate logins apart; subscription usage only counts toward budgets on its own account
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+
+      <div className="space-y-4">
+        {accountProviders.map(({ key, label, placeholder }) => {
+          const providerAccounts = config.accounts.filter(account => account.provider === key)
+          const providerRoots = roots.filter(root => root.provider === key)
+          return (
+            <div key={key} className="space-y-1.5">
+              <div className="text-xs font-medium text-foreground">{label}</div>
+              {config.accounts.map((account, index) => account.provider === key && (
+                <div key={account.id || `new-${index}`} className="grid grid-cols-[1fr_130px_28px] gap-2 items-center text-xs">
+                  <input
+                    type="text"
+                    value={account.name}
+                    onChange={(e) => updateAccount(index, { name: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <select
+                    value={account.pricingMode}
+                    onChange={(e) => updateAccount(index, { pricingMode: e.target.value as PricingMode })}
+                    className={inputClassName}
+                  >
+                    {pricingModeOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  {account.id === account.provider ? (
+                    <span className="text-[10px] text-muted-foreground text-center" title="Folders not assigned elsewhere belong here">Default</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRemove(index)}
+                      className="p-1 text-muted-foreground hover:text-red-400 transition-colors"
+                      title="Remove account"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  placeholder={`New account, e.g. ${placeholder}`}
+                  value={drafts[key] || ''}
+                  onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleAdd(key)
+                  }}
+                  className={`${inputClassName} flex-1`}
+                />
+                <button
+                  onClick={() => handleAdd(key)}
+                  disabled={!(drafts[key] || '').trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md bg-sky-500/20 text-sky-400 hover:bg-sky-500/30 transition-all disabled:opacity-40"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add account
+                </button>
+              </div>
+
+              {providerRoots.length > 0 && (
+                <div className="pt-1 space-y-1">
+                  {providerRoots.map(root => (
+                    <div key={root.path} className="flex items-center gap-2 px-2 py-1 bg-black/20 rounded-md text-xs">
+                      <span className="flex-1 font-mono text-foreground/90 truncate" title={root.path}>{root.path}</span>
+                      <select
+                        value={config.rootAccounts[root.path] || key}
+                        onChange={(e) => update({ ...config, rootAccounts: { ...config.rootAccounts, [root.path]: e.target.value } })}
+                        className={`${inputClassName} w-36`}
+                      >
+                        {/* Accounts added since the last save get an id when saved */}
+                        {providerAccounts.filter(account => account.id).map(account => (
+                          <option key={account.id} value={account.id}>{account.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={handleSave}
+          disabled={!dirty || saving}
+          className="px-3 py-1.5 text-xs font-medium rounded-md bg-sky-500/20 text-sky-400 hover:bg-sky-500/30 transition-all disabled:opacity-40"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react'
+import { Timer, Flame } from 'lucide-react'
+import { formatNumber, formatCurrency } from '@/lib/utils'
+import type { BillingBlock } from '@/types/electron'
+
+interface BillingBlockCardProps {
+  block: BillingBlock | null
+  className?: string
+}
+
+function formatRemaining(ms: number): string {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000))
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
+
+function formatClock(dateStr: string): string {
+  return new Date(dateStr).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })
+}
+
+export function BillingBlockCard({ block, className = '' }: BillingBlockCardProps) {
+  const [now, setNow] = useState(Date.now())
+
+  // Keep the countdown moving between data refreshes
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(intervalId)
+  }, [])
+
+  const start = block ? new Date(block.startTime).getTime() : 0
+  const end = block ? new Date(block.endTime).getTime() : 0
+  const isRunning = !!block && end > now
+  const elapsedPercent = isRunning ? Math.min(100, ((now - start) / (end - start)) * 100) : 0
+
+  return (
+    <div className={`relative p-5 bg-gradient-to-br from-orange-500/10 to-amber-500/5 rounded-xl border border-orange-500/20 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Timer className="w-4 h-4 text-orange-400" />
+          <h2 className="text-sm font-semibold text-foreground">Claude 5-Hour Block</h2>
+        </div>
+        {isRunning && block && (
+          <span className="text-xs text-muted-foreground">
+            {formatClock(block.startTime)} → {formatClock(block.endTime)}
+          </span>
+        )}
+      </div>
+
+      {!isRunning || !block ? (
+        <div className="py-4 text-center text-sm text-muted-foreground">
+          No active block. The next Claude message starts a new one.
+        </div>
+      ) : (
+        <>
+          <div className="h-1.5 mb-4 bg-white/[0.06] rounded-full overflow-hidden">
+            <div className="h-full bg-orange-400 rounded-full transition-all" style={{ width: `${elapsedPercent}%` }} />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <BlockStat label="Tokens" value={formatNumber(block.totalTokens)} />
+            <BlockStat label="Cost" value={formatCurrency(block.costUsd)} highlight />
+            <BlockStat label="Remaining" value={formatRemaining(end - now)} />
+            <BlockStat
+              label="Projected"
+              value={block.projected ? formatCurrency(block.projected.costUsd) : '—'}
+              sub={block.projected ? `${formatNumber(block.projected.totalTokens)} tokens` : undefined}
+            />
+          </div>
+
+          {block.burnRate && (
+            <div className="flex items-center gap-1.5 mt-3 text-xs text-muted-foreground">
+              <Flame className="w-3 h-3 text-orange-400" />
+              {formatNumber(Math.round(block.burnRate.tokensPerMinute))} tokens/min · {formatCurrency(block.burnRate.costPerHour)}/h
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+function BlockStat({ label, value, sub, highlight }: { label: string; value: string; sub?: string; highlight?: boolean }) {
+  return (
+    <div className="flex flex-col p-3 bg-background/50 rounded-lg border border-border/30">
+      <span className={`font-mono font-semibold ${highlight ? 'text-emerald-400' : 'text-foreground'}`}>
+        {value}
+      </span>
+      <span className="text-[10px] uppercase text-muted-foreground tracking-wider">
+        {label}
+      </span>
+      {sub && <span className="text-[10px] text-muted-foreground/70">{sub}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import { formatCurrency } from '@/lib/utils'
+import type { Account, BudgetStatus } from '@/types/electron'
+
+const periodLabels: Record<string, string> = {
+  daily: 'Today',
+  weekly: 'This week',
+  monthly: 'This month',
+}
+
+const providerNames: Record<string, string> = {
+  claude: 'Claude',
+  codex: 'Codex',
+  gemini: 'Gemini',
+}
+
+export function describeBudgetScope(status: BudgetStatus, accounts: Account[] = []): string {
+  const { scope, scopeValue } = status.budget
+  if (scope === 'global') return 'All usage'
+  if (scope === 'provider') return providerNames[scopeValue || ''] || scopeValue || ''
+  if (scope === 'account') return accounts.find(account => account.id === scopeValue)?.name || scopeValue || ''
+  return scopeValue || ''
+}
+
+function barColor(percent: number): string {
+  if (percent >= 100) return 'bg-red-500'
+  if (percent >= 80) return 'bg-amber-400'
+  return 'bg-emerald-400'
+}
+
+interface BudgetProgressProps {
+  status: BudgetStatus
+  label?: string
+  compact?: boolean
+}
+
+export function BudgetProgress({ status, label, compact = false }: BudgetProgressProps) {
+  const percent = Math.min(100, status.percentUsed)
+
+  return (
+    <div className={compact ? 'space-y-1' : 'space-y-1.5'}>
+      <div className={`flex items-center justify-between ${compact ? 'text-[10px]' : 'text-xs'}`}>
+        <span className="text-muted-foreground">
+          {label && <span className="text-foreground font-medium mr-1.5">{label}</span>}
+          {periodLabels[status.budget.period]}
+        </span>
+        <span className="font-mono text-muted-foreground">
+          {formatCurrency(status.spentUsd)} / {formatCurrency(status.budget.amountUsd)}
+          <span className={`ml-2 font-semibold ${status.percentUsed >= 100 ? 'text-red-400' : 'text-foreground'}`}>
+            {status.percentUsed.toFixed(0)}%
+          </span>
+        </span>
+      </div>
+      <div className={`${compact ? 'h-1' : 'h-1.5'} bg-white/[0.06] rounded-full overflow-hidden`}>
+        <div className={`h-full rounded-full ${barColor(status.percentUsed)}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react'
+import { Wallet, Trash2, Plus, BellRing } from 'lucide-react'
+import { BudgetProgress, describeBudgetScope } from '@/components/BudgetProgress'
+import { formatCurrency } from '@/lib/utils'
+import type { Account, Budget, BudgetAlert, BudgetPeriod, BudgetScope, BudgetStatus } from '@/types/electron'
+
+interface BudgetSettingsProps {
+  // Project keys as shown on the Projects page
+  projects: string[]
+  accounts: Account[]
+  onSaved?: () => void
+}
+
+const periodOptions: { value: BudgetPeriod; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+]
+
+const scopeOptions: { value: BudgetScope; label: string }[] = [
+  { value: 'global', label: 'All usage' },
+  { value: 'provider', label: 'Provider' },
+  { value: 'project', label: 'Project' },
+  { value: 'account', label: 'Account' },
+]
+
+const budgetProviders = [
+  { value: 'claude', label: 'Claude' },
+  { value: 'codex', label: 'Codex' },
+  { value: 'gemini', label: 'Gemini' },
+]
+
+const emptyBudget: Budget = { id: 0, period: 'monthly', scope: 'global', scopeValue: null, amountUsd: 0 }
+
+const inputClassName = 'h-8 px-2 bg-black/20 border border-white/[0.06] rounded-md text-xs text-foreground focus:outline-none focus:border-blue-500/50'
+
+export function BudgetSettings({ projects, accounts, onSaved }: BudgetSettingsProps) {
+  // Gemini is hidden throughout the app
+  const accountOptions = accounts
+    .filter(account => account.provider !== 'gemini')
+    .map(account => ({ value: account.id, label: account.name }))
+
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([])
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([])
+  const [draft, setDraft] = useState<Budget>(emptyBudget)
+
+  const load = async () => {
+    const [budgetsResult, alertsResult] = await Promise.all([
+      window.electronAPI?.getBudgets(),
+      window.electronAPI?.getBudgetAlerts(),
+    ])
+    if (budgetsResult?.success && budgetsResult.data) setStatuses(budgetsResult.data)
+    if (alertsResult?.success && alertsResult.data) setAlerts(alertsResult.data)
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const changeScope = (scope: BudgetScope) => {
+    const scopeValue = scope === 'provider'
+      ? 'claude'
+      : scope === 'project'
+        ? projects[0] || null
+        : scope === 'account' ? accountOptions[0]?.value || null : null
+    setDraft({ ...draft, scope, scopeValue })
+  }
+
+  const canAdd = draft.amountUsd > 0 && (draft.scope === 'global' || !!draft.scopeValue)
+
+  const handleAdd = async () => {
+    if (!canAdd) return
+    await window.electronAPI?.saveBudget(draft)
+    setDraft(emptyBudget)
+    await load()
+    onSaved?.()
+  }
+
+  const handleDelete = async (id: number) => {
+    await window.electronAPI?.deleteBudget(id)
+    await load()
+    onSaved?.()
+  }
+
+  const statusById = new Map(statuses.map(status => [status.budget.id, status]))
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04]">
+      <div className="flex items-center gap-3 mb-3">
+        <div className="w-8 h-8 flex items-center justify-center bg-emerald-500/10 rounded-lg">
+          <Wallet className="w-4 h-4 text-emerald-400" />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Budgets</h3>
+          <p className="text-xs text-muted-foreground">Get notified at 50%, 80% and 100% of a spend limit</p>
+        </div>
+      </div>
+
+      <div className="space-y-3 mb-4">
+        {statuses.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No budgets yet</p>
+        ) : (
+          statuses.map(status => (
+            <div key={status.budget.id} className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <BudgetProgress status={status} label={describeBudgetScope(status, accounts)} />
+              </div>
+              <button
+                onClick={() => handleDelete(status.budget.id)}
+                title="Delete budget"
+                className="p-1.5 rounded-md text-muted-foreground hover:text-red-400 hover:bg-red-500/10 transition-all"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="grid grid-cols-[100px_100px_1fr_100px_auto] gap-2 items-center text-xs">
+        <select
+          value={draft.period}
+          onChange={(e) => setDraft({ ...draft, period: e.target.value as BudgetPeriod })}
+          className={inputClassName}
+        >
+          {periodOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={draft.scope}
+          onChange={(e) => changeScope(e.target.value as BudgetScope)}
+          className={inputClassName}
+        >
+          {scopeOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {draft.scope === 'global' ? (
+          <span />
+        ) : (
+          <select
+            value={draft.scopeValue || ''}
+            onChange={(e) => setDraft({ ...draft, scopeValue: e.target.value })}
+            className={`${inputClassName} min-w-0`}
+          >
+            {(draft.scope === 'provider'
+              ? budgetProviders
+              : draft.scope === 'account'
+                ? accountOptions
+                : projects.map(project => ({ value: project, label: project }))
+            ).map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          placeholder="USD"
+          value={draft.amountUsd || ''}
+          onChange={(e) => setDraft({ ...draft, amountUsd: Math.max(0, Number(e.target.value)) })}
+          className={inputClassName}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 transition-all disabled:opacity-40"
+        >
+          <Plus className="w-3 h-3" />
+          Add
+        </button>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-white/[0.04] space-y-1.5">
+          <div className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-muted-foreground">
+            <BellRing className="w-3 h-3" />
+            Recent alerts
+          </div>
+          {alerts.slice(0, 5).map(alert => {
+            const status = statusById.get(alert.budgetId)
+            return (
+              <div key={`${alert.budgetId}-${alert.periodStart}-${alert.threshold}`} className="flex justify-between text-xs text-muted-foreground">
+                <span>
+                  {status ? describeBudgetScope(status, accounts) : 'Budget'} reached {alert.threshold}% ({formatCurrency(alert.spentUsd)})
+                </span>
+                <span>{new Date(alert.firedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false })}</span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
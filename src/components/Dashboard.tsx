@@ -1,4 +1,4 @@
-import { useMemo, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import {
   AreaChart,
   Area,
@@ -9,12 +9,14 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts'
-import { TrendingUp, Calendar, Zap, DollarSign, Clock } from 'lucide-react'
-import type { UsageData, Session } from '@/types/electron'
+import { TrendingUp, Calendar, Zap, DollarSign, Clock, AlertTriangle } from 'lucide-react'
+import { BillingBlockCard } from '@/components/BillingBlockCard'
+import type { UsageData, UsageTotals, TimeseriesPoint } from '@/types/electron'
 
 interface DashboardProps {
   data: UsageData | null
-  sessions?: Session[]
+  // Account the hourly series are limited to, like data
+  account?: string | null
 }
 
 interface ChartDataPoint {
@@ -22,6 +24,7 @@ interface ChartDataPoint {
   displayDate: string
   inputTokens: number
   outputTokens: number
+  reasoningTokens: number
   sessions: number
   cost: number
 }
@@ -66,137 +69,127 @@ const providerNames: Record<string, string> = {
   codex: 'Codex',
 }
 
-// Pricing per 1M tokens (simplified)
-const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'claude-sonnet-4': { input: 3, output: 15 },
-  'claude-3-5-sonnet': { input: 3, output: 15 },
-  'claude-3-opus': { input: 15, output: 75 },
-  'claude-3-sonnet': { input: 3, output: 15 },
-  'claude-3-haiku': { input: 0.25, output: 1.25 },
-  'gpt-4o': { input: 2.5, output: 10 },
-  'gpt-4': { input: 30, output: 60 },
-  'o3': { input: 10, output: 40 },
-  'o1': { input: 15, output: 60 },
-  default: { input: 3, output: 15 },
+function totalTokensOf(stats?: UsageTotals): number {
+  return (stats?.inputTokens || 0) + (stats?.outputTokens || 0)
 }
 
-function getModelPricing(model: string): { input: number; output: number } {
-  const lowerModel = model.toLowerCase()
-  for (const [key, pricing] of Object.entries(MODEL_PRICING)) {
-    if (lowerModel.includes(key)) return pricing
-  }
-  return MODEL_PRICING.default
+// Hourly charts fetch this many hours once and slice per selected range
+const HOURLY_CHART_HOURS = 24
+const HOUR_MS = 60 * 60 * 1000
+
+type HourlyMetric = 'inputTokens' | 'outputTokens' | 'reasoningTokens' | 'sessions' | 'cost'
+
+const hourlyMetrics: HourlyMetric[] = ['inputTokens', 'outputTokens', 'reasoningTokens', 'sessions', 'cost']
+
+function formatHour(time: string): string {
+  return new Date(time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })
 }
 
-function calculateCost(inputTokens: number, outputTokens: number, model: string = 'default'): number {
-  const pricing = getModelPricing(model)
-  return (inputTokens / 1000000) * pricing.input + (outputTokens / 1000000) * pricing.output
+// Day keys are local dates (YYYY-MM-DD); parsing them as ISO would read UTC midnight
+function formatDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
 }
 
-export function Dashboard({ data, sessions = [] }: DashboardProps) {
+export function Dashboard({ data, account = null }: DashboardProps) {
   const [selectedTimeRange, setSelectedTimeRange] = useState<TimeRange>('4h')
   const [tokenChartRange, setTokenChartRange] = useState<ChartTimeRange>('days')
   const [costChartRange, setCostChartRange] = useState<ChartTimeRange>('days')
 
-  // Use sessions from props or from data.recentSessions
-  const allSessions = sessions.length > 0 ? sessions : (data?.recentSessions || [])
-
   // Chart data by days (original 14 days)
   const chartDataByDays = useMemo<ChartDataPoint[]>(() => {
     if (!data?.byDate) return []
 
-    const entries = Object.entries(data.byDate as Record<string, {
-      sessions: number
-      inputTokens: number
-      outputTokens: number
-      costUsd: number
-    }>)
+    const entries = Object.entries(data.byDate)
       .sort(([a], [b]) => a.localeCompare(b))
       .slice(-14) // Last 14 days
 
     return entries.map(([date, stats]) => ({
       date,
-      displayDate: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      displayDate: formatDay(date),
       inputTokens: Math.round(stats.inputTokens / 1000), // Convert to K
       outputTokens: Math.round(stats.outputTokens / 1000),
+      reasoningTokens: Math.round(stats.reasoningOutputTokens / 1000),
       sessions: stats.sessions,
       cost: stats.costUsd,
     }))
   }, [data])
 
-  // Chart data by hours (for 4h, 5h, 24h ranges)
-  // Creates one data point per hour interval using LOCAL time
-  const getChartDataByHours = useMemo(() => {
-    // Helper to create a local hour key (YYYY-MM-DD-HH format in local time)
-    const getLocalHourKey = (date: Date): string => {
-      const year = date.getFullYear()
-      const month = String(date.getMonth() + 1).padStart(2, '0')
-      const day = String(date.getDate()).padStart(2, '0')
-      const hour = String(date.getHours()).padStart(2, '0')
-      return `${year}-${month}-${day}-${hour}`
+  // Hourly per-provider series from the backend, aligned to local hours
+  const [hourlySeries, setHourlySeries] = useState<Partial<Record<HourlyMetric, TimeseriesPoint[]>>>({})
+  const [hourlyError, setHourlyError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!data || !window.electronAPI) return
+    const api = window.electronAPI
+
+    const now = new Date()
+    const currentHour = new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours())
+    const start = new Date(currentHour.getTime() - (HOURLY_CHART_HOURS - 1) * HOUR_MS).toISOString()
+    const end = new Date(currentHour.getTime() + HOUR_MS).toISOString()
+
+    let cancelled = false
+    // One request for every metric, all over the same buckets
+    api.getTimeseries(hourlyMetrics.map(metric => ({
+      start,
+      end,
+      bucket: 'hour' as const,
+      groupBy: 'provider' as const,
+      metric,
+      tzOffsetMinutes: -now.getTimezoneOffset(),
+      account: account || undefined,
+    }))).then(result => {
+      if (cancelled) return
+      const next: Partial<Record<HourlyMetric, TimeseriesPoint[]>> = {}
+      result.data?.forEach((series, idx) => {
+        next[hourlyMetrics[idx]] = series.points
+      })
+      setHourlySeries(next)
+      setHourlyError(result.success ? null : result.error || 'Failed to load hourly usage')
+    }).catch(error => {
+      if (cancelled) return
+      console.error('Error loading hourly usage:', error)
+      // Don't keep showing the previous hours as if they were current
+      setHourlySeries({})
+      setHourlyError(error instanceof Error ? error.message : String(error))
+    })
+
+    return () => {
+      cancelled = true
     }
+  }, [data, account])
+
+  // One row per hour, merged by bucket time so a missing series only leaves its own values empty
+  const hourlyRows = useMemo(() => {
+    const pointAt = (metric: HourlyMetric) =>
+      new Map((hourlySeries[metric] || []).map(point => [point.time, point]))
+    const byMetric = Object.fromEntries(hourlyMetrics.map(metric => [metric, pointAt(metric)])) as Record<HourlyMetric, Map<string, TimeseriesPoint>>
+    const times = [...new Set(hourlyMetrics.flatMap(metric => [...byMetric[metric].keys()]))].sort()
+
+    return times.map(time => ({
+      date: time,
+      displayDate: formatHour(time),
+      input: byMetric.inputTokens.get(time),
+      output: byMetric.outputTokens.get(time),
+      reasoning: byMetric.reasoningTokens.get(time),
+      sessions: byMetric.sessions.get(time),
+      cost: byMetric.cost.get(time),
+    }))
+  }, [hourlySeries])
 
-    return (hours: number): ChartDataPoint[] => {
-      const now = new Date()
-      // Round down to current hour (local time)
-      const currentHour = new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours())
-      
-      // Create hourly buckets - one for each hour
-      const hourlyData: Record<string, { inputTokens: number; outputTokens: number; sessions: number; cost: number; time: Date }> = {}
-      
-      // Initialize all hour slots with zeros
-      for (let i = hours - 1; i >= 0; i--) {
-        const hourTime = new Date(currentHour.getTime() - i * 60 * 60 * 1000)
-        const hourKey = getLocalHourKey(hourTime)
-        hourlyData[hourKey] = { inputTokens: 0, outputTokens: 0, sessions: 0, cost: 0, time: hourTime }
-      }
-      
-      // Fill in actual data from sessions
-      const cutoffTime = currentHour.getTime() - (hours - 1) * 60 * 60 * 1000
-      
-      allSessions
-        .filter(s => s.provider !== 'gemini')
-        .forEach(session => {
-          const sessionTime = session.lastMessage ? new Date(session.lastMessage).getTime() : 0
-          if (sessionTime >= cutoffTime) {
-            const sessionDate = new Date(sessionTime)
-            // Round down to hour
-            const sessionHourDate = new Date(
-              sessionDate.getFullYear(),
-              sessionDate.getMonth(),
-              sessionDate.getDate(),
-              sessionDate.getHours()
-            )
-            const hourKey = getLocalHourKey(sessionHourDate)
-            
-            if (hourlyData[hourKey]) {
-              hourlyData[hourKey].inputTokens += session.inputTokens || 0
-              hourlyData[hourKey].outputTokens += session.outputTokens || 0
-              hourlyData[hourKey].sessions += 1
-              hourlyData[hourKey].cost += calculateCost(
-                session.inputTokens || 0,
-                session.outputTokens || 0,
-                session.model || 'default'
-              )
-            }
-          }
-        })
-
-      // Convert to array and sort by time
-      return Object.entries(hourlyData)
-        .sort(([a], [b]) => a.localeCompare(b))
-        .map(([hourKey, stats]) => {
-          return {
-            date: hourKey,
-            displayDate: stats.time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
-            inputTokens: Math.round(stats.inputTokens / 1000),
-            outputTokens: Math.round(stats.outputTokens / 1000),
-            sessions: stats.sessions,
-            cost: stats.cost,
-          }
-        })
-    }
-  }, [allSessions])
+  // Chart data by hours (for 4h, 5h, 24h ranges)
+  const getChartDataByHours = useMemo(() => {
+    return (hours: number): ChartDataPoint[] =>
+      hourlyRows.slice(-hours).map(row => ({
+        date: row.date,
+        displayDate: row.displayDate,
+        inputTokens: Math.round((row.input?.total || 0) / 1000),
+        outputTokens: Math.round((row.output?.total || 0) / 1000),
+        reasoningTokens: Math.round((row.reasoning?.total || 0) / 1000),
+        sessions: row.sessions?.total || 0,
+        cost: row.cost?.total || 0,
+      }))
+  }, [hourlyRows])
 
   // Get chart data based on selected range
   const getChartData = (range: ChartTimeRange): ChartDataPoint[] => {
@@ -211,246 +204,78 @@ export function Dashboard({ data, sessions = [] }: DashboardProps) {
   const [providerChartRange, setProviderChartRange] = useState<ChartTimeRange>('4h')
   
   const getProviderChartDataByHours = useMemo(() => {
-    const getLocalHourKey = (date: Date): string => {
-      const year = date.getFullYear()
-      const month = String(date.getMonth() + 1).padStart(2, '0')
-      const day = String(date.getDate()).padStart(2, '0')
-      const hour = String(date.getHours()).padStart(2, '0')
-      return `${year}-${month}-${day}-${hour}`
-    }
-
-    return (hours: number): ProviderChartDataPoint[] => {
-      const now = new Date()
-      const currentHour = new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours())
-      
-      // Create hourly buckets
-      const hourlyData: Record<string, { claudeTokens: number; codexTokens: number; time: Date }> = {}
-      
-      for (let i = hours - 1; i >= 0; i--) {
-        const hourTime = new Date(currentHour.getTime() - i * 60 * 60 * 1000)
-        const hourKey = getLocalHourKey(hourTime)
-        hourlyData[hourKey] = { claudeTokens: 0, codexTokens: 0, time: hourTime }
-      }
-      
-      const cutoffTime = currentHour.getTime() - (hours - 1) * 60 * 60 * 1000
-      
-      allSessions
-        .filter(s => s.provider !== 'gemini')
-        .forEach(session => {
-          const sessionTime = session.lastMessage ? new Date(session.lastMessage).getTime() : 0
-          if (sessionTime >= cutoffTime) {
-            const sessionDate = new Date(sessionTime)
-            const sessionHourDate = new Date(
-              sessionDate.getFullYear(),
-              sessionDate.getMonth(),
-              sessionDate.getDate(),
-              sessionDate.getHours()
-            )
-            const hourKey = getLocalHourKey(sessionHourDate)
-            
-            if (hourlyData[hourKey]) {
-              const totalTokens = (session.inputTokens || 0) + (session.outputTokens || 0)
-              if (session.provider === 'claude') {
-                hourlyData[hourKey].claudeTokens += totalTokens
-              } else if (session.provider === 'codex') {
-                hourlyData[hourKey].codexTokens += totalTokens
-              }
-            }
-          }
-        })
-
-      return Object.entries(hourlyData)
-        .sort(([a], [b]) => a.localeCompare(b))
-        .map(([hourKey, stats]) => ({
-          date: hourKey,
-          displayDate: stats.time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
-          claudeTokens: Math.round(stats.claudeTokens / 1000),
-          codexTokens: Math.round(stats.codexTokens / 1000),
-        }))
-    }
-  }, [allSessions])
+    const providerTokens = (row: typeof hourlyRows[number], provider: string) =>
+      (row.input?.values[provider] || 0) + (row.output?.values[provider] || 0)
+
+    return (hours: number): ProviderChartDataPoint[] =>
+      hourlyRows.slice(-hours).map(row => ({
+        date: row.date,
+        displayDate: row.displayDate,
+        claudeTokens: Math.round(providerTokens(row, 'claude') / 1000),
+        codexTokens: Math.round(providerTokens(row, 'codex') / 1000),
+      }))
+  }, [hourlyRows])
 
   const providerChartData = useMemo(() => {
     if (providerChartRange === 'days') {
-      // For days view, aggregate by date
-      const byDate: Record<string, { claudeTokens: number; codexTokens: number }> = {}
-      
-      allSessions
-        .filter(s => s.provider !== 'gemini')
-        .forEach(session => {
-          if (session.lastMessage) {
-            const date = new Date(session.lastMessage).toISOString().split('T')[0]
-            if (!byDate[date]) {
-              byDate[date] = { claudeTokens: 0, codexTokens: 0 }
-            }
-            const totalTokens = (session.inputTokens || 0) + (session.outputTokens || 0)
-            if (session.provider === 'claude') {
-              byDate[date].claudeTokens += totalTokens
-            } else if (session.provider === 'codex') {
-              byDate[date].codexTokens += totalTokens
-            }
-          }
-        })
-
-      return Object.entries(byDate)
+      return Object.entries(data?.byDate || {})
         .sort(([a], [b]) => a.localeCompare(b))
         .slice(-14)
         .map(([date, stats]) => ({
           date,
-          displayDate: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-          claudeTokens: Math.round(stats.claudeTokens / 1000),
-          codexTokens: Math.round(stats.codexTokens / 1000),
+          displayDate: formatDay(date),
+          claudeTokens: Math.round(totalTokensOf(stats.providers.claude) / 1000),
+          codexTokens: Math.round(totalTokensOf(stats.providers.codex) / 1000),
         }))
     }
     const hours = chartTimeRanges.find(r => r.key === providerChartRange)?.hours || 24
     return getProviderChartDataByHours(hours)
-  }, [providerChartRange, allSessions, getProviderChartDataByHours])
+  }, [providerChartRange, data, getProviderChartDataByHours])
 
   // Provider cost chart data by hours
   const getProviderCostChartDataByHours = useMemo(() => {
-    const getLocalHourKey = (date: Date): string => {
-      const year = date.getFullYear()
-      const month = String(date.getMonth() + 1).padStart(2, '0')
-      const day = String(date.getDate()).padStart(2, '0')
-      const hour = String(date.getHours()).padStart(2, '0')
-      return `${year}-${month}-${day}-${hour}`
-    }
-
-    return (hours: number): ProviderCostChartDataPoint[] => {
-      const now = new Date()
-      const currentHour = new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours())
-      
-      // Create hourly buckets
-      const hourlyData: Record<string, { claudeCost: number; codexCost: number; time: Date }> = {}
-      
-      for (let i = hours - 1; i >= 0; i--) {
-        const hourTime = new Date(currentHour.getTime() - i * 60 * 60 * 1000)
-        const hourKey = getLocalHourKey(hourTime)
-        hourlyData[hourKey] = { claudeCost: 0, codexCost: 0, time: hourTime }
-      }
-      
-      const cutoffTime = currentHour.getTime() - (hours - 1) * 60 * 60 * 1000
-      
-      allSessions
-        .filter(s => s.provider !== 'gemini')
-        .forEach(session => {
-          const sessionTime = session.lastMessage ? new Date(session.lastMessage).getTime() : 0
-          if (sessionTime >= cutoffTime) {
-            const sessionDate = new Date(sessionTime)
-            const sessionHourDate = new Date(
-              sessionDate.getFullYear(),
-              sessionDate.getMonth(),
-              sessionDate.getDate(),
-              sessionDate.getHours()
-            )
-            const hourKey = getLocalHourKey(sessionHourDate)
-            
-            if (hourlyData[hourKey]) {
-              const cost = calculateCost(
-                session.inputTokens || 0,
-                session.outputTokens || 0,
-                session.model || 'default'
-              )
-              if (session.provider === 'claude') {
-                hourlyData[hourKey].claudeCost += cost
-              } else if (session.provider === 'codex') {
-                hourlyData[hourKey].codexCost += cost
-              }
-            }
-          }
-        })
-
-      return Object.entries(hourlyData)
-        .sort(([a], [b]) => a.localeCompare(b))
-        .map(([hourKey, stats]) => ({
-          date: hourKey,
-          displayDate: stats.time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
-          claudeCost: stats.claudeCost,
-          codexCost: stats.codexCost,
-        }))
-    }
-  }, [allSessions])
+    return (hours: number): ProviderCostChartDataPoint[] =>
+      hourlyRows.slice(-hours).map(row => ({
+        date: row.date,
+        displayDate: row.displayDate,
+        claudeCost: row.cost?.values.claude || 0,
+        codexCost: row.cost?.values.codex || 0,
+      }))
+  }, [hourlyRows])
 
   // Provider cost chart data (by hours or days)
   const providerCostChartData = useMemo(() => {
     if (costChartRange === 'days') {
-      // For days view, aggregate by date
-      const byDate: Record<string, { claudeCost: number; codexCost: number }> = {}
-      
-      allSessions
-        .filter(s => s.provider !== 'gemini')
-        .forEach(session => {
-          if (session.lastMessage) {
-            const date = new Date(session.lastMessage).toISOString().split('T')[0]
-            if (!byDate[date]) {
-              byDate[date] = { claudeCost: 0, codexCost: 0 }
-            }
-            const cost = calculateCost(
-              session.inputTokens || 0,
-              session.outputTokens || 0,
-              session.model || 'default'
-            )
-            if (session.provider === 'claude') {
-              byDate[date].claudeCost += cost
-            } else if (session.provider === 'codex') {
-              byDate[date].codexCost += cost
-            }
-          }
-        })
-
-      return Object.entries(byDate)
+      return Object.entries(data?.byDate || {})
         .sort(([a], [b]) => a.localeCompare(b))
         .slice(-14)
         .map(([date, stats]) => ({
           date,
-          displayDate: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-          claudeCost: stats.claudeCost,
-          codexCost: stats.codexCost,
+          displayDate: formatDay(date),
+          claudeCost: stats.providers.claude?.costUsd || 0,
+          codexCost: stats.providers.codex?.costUsd || 0,
         }))
     }
     const hours = chartTimeRanges.find(r => r.key === costChartRange)?.hours || 24
     return getProviderCostChartDataByHours(hours)
-  }, [costChartRange, allSessions, getProviderCostChartDataByHours])
-
-  const totals = useMemo(() => {
-    if (!chartDataByDays.length) return { tokens: 0, sessions: 0, cost: 0 }
-    return chartDataByDays.reduce(
-      (acc, day) => ({
-        tokens: acc.tokens + day.inputTokens + day.outputTokens,
-        sessions: acc.sessions + day.sessions,
-        cost: acc.cost + day.cost,
-      }),
-      { tokens: 0, sessions: 0, cost: 0 }
-    )
-  }, [chartDataByDays])
+  }, [costChartRange, data, getProviderCostChartDataByHours])
+
+  const totals = data?.recentTotals
 
-  // Calculate provider stats by time range
+  // Per-provider usage in the selected trailing window, aggregated from events by the backend
   const providerStatsByTime = useMemo(() => {
-    const now = Date.now()
     const selectedRange = timeRanges.find(r => r.key === selectedTimeRange)!
-    const cutoffTime = now - selectedRange.hours * 60 * 60 * 1000
+    const windowStats = data?.byWindow?.[String(selectedRange.hours)]
 
-    // Initialize with both providers (always show both cards)
-    const stats: Record<string, { inputTokens: number; outputTokens: number; sessions: number }> = {
-      claude: { inputTokens: 0, outputTokens: 0, sessions: 0 },
-      codex: { inputTokens: 0, outputTokens: 0, sessions: 0 },
+    // Always show both provider cards
+    const stats: Record<string, UsageTotals> = {}
+    for (const provider of ['claude', 'codex']) {
+      stats[provider] = windowStats?.providers[provider] || {
+        sessions: 0, inputTokens: 0, outputTokens: 0, reasoningOutputTokens: 0, costUsd: 0,
+      }
     }
-
-    allSessions
-      .filter(s => s.provider !== 'gemini')
-      .forEach(session => {
-        const sessionTime = session.lastMessage ? new Date(session.lastMessage).getTime() : 0
-        if (sessionTime >= cutoffTime) {
-          if (stats[session.provider]) {
-            stats[session.provider].inputTokens += session.inputTokens || 0
-            stats[session.provider].outputTokens += session.outputTokens || 0
-            stats[session.provider].sessions += 1
-          }
-        }
-      })
-
     return stats
-  }, [allSessions, selectedTimeRange])
+  }, [data, selectedTimeRange])
 
   const CustomTooltip = ({ active, payload, label }: {
     active?: boolean
@@ -536,6 +361,16 @@ export function Dashboard({ data, sessions = [] }: DashboardProps) {
         </div>
       </div>
 
+      {hourlyError && (
+        <div className="flex items-start gap-2 p-3 rounded-xl border bg-red-500/[0.06] border-red-500/20 text-xs text-red-400">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <div>
+            <div className="font-medium">Hourly usage could not be loaded</div>
+            <div className="mt-0.5 text-red-400/80 break-words">{hourlyError}</div>
+          </div>
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-3 gap-4">
         <div className="relative group p-4 bg-gradient-to-br from-blue-500/5 to-purple-500/5 rounded-xl border border-white/[0.04] overflow-hidden">
@@ -546,7 +381,7 @@ export function Dashboard({ data, sessions = [] }: DashboardProps) {
             </div>
             <div>
               <p className="text-xs text-muted-foreground">Total Tokens</p>
-              <p className="text-lg font-bold text-foreground">{(totals.tokens).toLocaleString()}K</p>
+              <p className="text-lg font-bold text-foreground">{Math.round(totalTokensOf(totals) / 1000).toLocaleString()}K</p>
             </div>
           </div>
         </div>
@@ -559,7 +394,7 @@ export function Dashboard({ data, sessions = [] }: DashboardProps) {
             </div>
             <div>
               <p className="text-xs text-muted-foreground">Sessions</p>
-              <p className="text-lg font-bold text-foreground">{totals.sessions}</p>
+              <p className="text-lg font-bold text-foreground">{totals?.sessions || 0}</p>
             </div>
           </div>
         </div>
@@ -572,12 +407,15 @@ export function Dashboard({ data, sessions = [] }: DashboardProps) {
             </div>
             <div>
               <p className="text-xs text-muted-foreground">Total Cost</p>
-              <p className="text-lg font-bold text-foreground">${totals.cost.toFixed(2)}</p>
+              <p className="text-lg font-bold text-foreground">${(totals?.costUsd || 0).toFixed(2)}</p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Active Claude billing block */}
+      <BillingBlockCard block={data.activeBlock} />
+
       {/* Provider Stats by Time Range */}
       <div className="relative p-5 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04] backdrop-blur-sm">
         <div className="flex items-center justify-between mb-2">
@@ -672,6 +510,12 @@ export function Dashboard({ data, sessions = [] }: DashboardProps) {
                         {formatTokens(totalTokens)}
                       </span>
                     </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">Cost</span>
+                      <span className="text-sm font-mono font-medium text-emerald-400">
+                        ${stats.costUsd.toFixed(2)}
+                      </span>
+                    </div>
                   </div>
                 </div>
               )
@@ -703,6 +547,10 @@ export function Dashboard({ data, sessions = [] }: DashboardProps) {
                     <stop offset="5%" stopColor="#a855f7" stopOpacity={0.3} />
                     <stop offset="95%" stopColor="#a855f7" stopOpacity={0} />
                   </linearGradient>
+                  <linearGradient id="reasoningGradient" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#eab308" stopOpacity={0.3} />
+                    <stop offset="95%" stopColor="#eab308" stopOpacity={0} />
+                  </linearGradient>
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.04)" />
                 <XAxis
@@ -738,6 +586,14 @@ export function Dashboard({ data, sessions = [] }: DashboardProps) {
                   strokeWidth={2}
                   fill="url(#outputGradient)"
                 />
+                <Area
+                  type="monotone"
+                  dataKey="reasoningTokens"
+                  name="Reasoning Tokens"
+                  stroke="#eab308"
+                  strokeWidth={2}
+                  fill="url(#reasoningGradient)"
+                />
               </AreaChart>
             </ResponsiveContainer>
           )}
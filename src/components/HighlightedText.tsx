@@ -0,0 +1,32 @@
+import { Fragment } from 'react'
+
+interface HighlightedTextProps {
+  text: string
+  query: string
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Text with every case-insensitive occurrence of `query` marked
+ */
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  if (!query) return <>{text}</>
+
+  // Splitting on a capture group keeps the matches at the odd indexes
+  const parts = text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi'))
+
+  return (
+    <>
+      {parts.map((part, idx) =>
+        idx % 2 === 1 ? (
+          <mark key={idx} className="bg-amber-400/30 text-foreground rounded-sm">{part}</mark>
+        ) : (
+          <Fragment key={idx}>{part}</Fragment>
+        )
+      )}
+    </>
+  )
+}
@@ -1,9 +1,11 @@
 import { Minus, X, Maximize2, RefreshCw } from 'lucide-react'
-import type { ProviderData } from '@/types/electron'
+import type { ProviderData, RateLimitSnapshot } from '@/types/electron'
 import type { FontSize } from '@/components/SettingsPage'
+import { RateLimitGauges } from '@/components/RateLimitGauges'
 
 interface MiniViewProps {
   providers: Record<string, ProviderData>
+  rateLimits: RateLimitSnapshot | null
   onExpand: () => void
   onRefresh: () => void
   refreshing: boolean
@@ -41,9 +43,9 @@ const fontSizeConfig: Record<FontSize, {
 
 // Window sizes for different font sizes
 export const miniWindowSizes: Record<FontSize, { width: number; height: number }> = {
-  small: { width: 280, height: 140 },
-  medium: { width: 380, height: 170 },
-  large: { width: 500, height: 210 },
+  small: { width: 280, height: 155 },
+  medium: { width: 380, height: 195 },
+  large: { width: 500, height: 245 },
 }
 
 function formatTokens(tokens: number): string {
@@ -52,7 +54,7 @@ function formatTokens(tokens: number): string {
   return tokens.toString()
 }
 
-export function MiniView({ providers, onExpand, onRefresh, refreshing, fontSize }: MiniViewProps) {
+export function MiniView({ providers, rateLimits, onExpand, onRefresh, refreshing, fontSize }: MiniViewProps) {
   const handleMinimize = () => window.electronAPI?.windowMinimize()
   const handleClose = () => window.electronAPI?.windowClose()
   
@@ -124,6 +126,9 @@ export function MiniView({ providers, onExpand, onRefresh, refreshing, fontSize
                   <span className={`${fontClasses.total} font-mono font-bold ${colors.text}`}>{formatTokens(totalTokens)}</span>
                 </div>
               </div>
+              {key === 'codex' && (
+                <RateLimitGauges rateLimits={rateLimits} compact className={`${fontClasses.label} mt-1`} />
+              )}
             </div>
           )
         })}
@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Tags, Search, Pencil, RotateCcw, Plus, Trash2, Loader2 } from 'lucide-react'
+import type { PriceEntry, PricingCatalog, PricingTable } from '@/types/electron'
+
+interface PricingSettingsProps {
+  onSaved?: () => void
+}
+
+const rateFields: { key: Exclude<keyof PriceEntry, 'effectiveFrom'>; label: string }[] = [
+  { key: 'input', label: 'Input' },
+  { key: 'output', label: 'Output' },
+  { key: 'cacheRead', label: 'Cache read' },
+  { key: 'cacheWrite5m', label: 'Write 5m' },
+  { key: 'cacheWrite1h', label: 'Write 1h' },
+]
+
+const inputClassName = 'h-8 px-2 bg-black/20 border border-white/[0.06] rounded-md text-xs text-foreground focus:outline-none focus:border-blue-500/50'
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// Undefined for a model that isn't in the catalog yet
+function latestEntry(entries: PriceEntry[] | undefined): PriceEntry | undefined {
+  return entries?.[entries.length - 1]
+}
+
+export function PricingSettings({ onSaved }: PricingSettingsProps) {
+  const [catalog, setCatalog] = useState<PricingCatalog | null>(null)
+  const [query, setQuery] = useState('')
+  // Model being edited; '' while adding a new one
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [draft, setDraft] = useState<PriceEntry | null>(null)
+  const [alias, setAlias] = useState({ name: '', model: '' })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.electronAPI?.getPricing().then(result => {
+      if (result?.success && result.data) setCatalog(result.data)
+    })
+  }, [])
+
+  const modelNames = useMemo(
+    () => (catalog ? Object.keys(catalog.models).sort() : []),
+    [catalog]
+  )
+
+  const filteredModels = useMemo(
+    () => modelNames.filter(name => name.toLowerCase().includes(query.toLowerCase())),
+    [modelNames, query]
+  )
+
+  // Resolves to whether the overrides were saved
+  const saveOverrides = async (overrides: PricingTable): Promise<boolean> => {
+    setSaving(true)
+    setError(null)
+    const result = await window.electronAPI?.savePricingOverrides(overrides)
+    if (result?.success && result.data) setCatalog(result.data)
+    else if (result?.error) setError(result.error)
+    setSaving(false)
+    onSaved?.()
+    return !!result?.success
+  }
+
+  const startEdit = (name: string) => {
+    const current = catalog && latestEntry(catalog.models[name])
+    setEditing(name)
+    setDraftName(name)
+    setDraft({ ...(current || { input: 0, output: 0, cacheRead: 0, cacheWrite5m: 0, cacheWrite1h: 0 }), effectiveFrom: today() })
+  }
+
+  const cancelEdit = () => {
+    setEditing(null)
+    setDraft(null)
+  }
+
+  const handleSaveEntry = async () => {
+    if (!catalog || !draft || !draftName.trim()) return
+    const name = draftName.trim()
+    const existing = (catalog.overrides.models[name] || []).filter(entry => entry.effectiveFrom !== draft.effectiveFrom)
+    const saved = await saveOverrides({
+      ...catalog.overrides,
+      models: { ...catalog.overrides.models, [name]: [...existing, draft] },
+    })
+    if (saved) cancelEdit()
+  }
+
+  const handleReset = async (name: string) => {
+    if (!catalog) return
+    const models = { ...catalog.overrides.models }
+    delete models[name]
+    await saveOverrides({ ...catalog.overrides, models })
+  }
+
+  const handleAddAlias = async () => {
+    if (!catalog || !alias.name.trim() || !alias.model) return
+    const saved = await saveOverrides({
+      ...catalog.overrides,
+      aliases: { ...catalog.overrides.aliases, [alias.name.trim()]: alias.model },
+    })
+    if (saved) setAlias({ name: '', model: '' })
+  }
+
+  const handleRemoveAlias = async (name: string) => {
+    if (!catalog) return
+    const aliases = { ...catalog.overrides.aliases }
+    delete aliases[name]
+    await saveOverrides({ ...catalog.overrides, aliases })
+  }
+
+  const renderEditor = () => draft && (
+    <div className="p-3 space-y-2 bg-black/20 rounded-lg">
+      <div className="grid grid-cols-[1fr_130px] gap-2">
+        <input
+          type="text"
+          placeholder="Model id"
+          value={draftName}
+          disabled={editing !== ''}
+          onChange={(e) => setDraftName(e.target.value)}
+          className={`${inputClassName} disabled:opacity-60`}
+        />
+        <input
+          type="date"
+          value={draft.effectiveFrom}
+          onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })}
+          className={inputClassName}
+        />
+      </div>
+      <div className="grid grid-cols-5 gap-2">
+        {rateFields.map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1 text-[10px] text-muted-foreground">
+            {label}
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={draft[key]}
+              onChange={(e) => setDraft({ ...draft, [key]: Math.max(0, Number(e.target.value)) })}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={cancelEdit}
+          className="px-3 py-1.5 text-xs font-medium rounded-md text-muted-foreground hover:text-foreground hover:bg-white/[0.04] transition-all"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSaveEntry}
+          disabled={saving || !draftName.trim() || !draft.effectiveFrom}
+          className="px-3 py-1.5 text-xs font-medium rounded-md bg-violet-500/20 text-violet-400 hover:bg-violet-500/30 transition-all disabled:opacity-40"
+        >
+          Save rates
+        </button>
+      </div>
+    </div>
+  )
+
+  if (!catalog) return null
+
+  const aliasEntries = Object.entries(catalog.aliases).sort(([a], [b]) => a.localeCompare(b))
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04]">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 flex items-center justify-center bg-violet-500/10 rounded-lg">
+            <Tags className="w-4 h-4 text-violet-400" />
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-foreground">Model Pricing</h3>
+            <p className="text-xs text-muted-foreground">USD per 1M tokens · catalog {catalog.version}</p>
+          </div>
+        </div>
+        {saving && (
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Re-pricing sessions...
+          </span>
+        )}
+      </div>
+
+      {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-2 mb-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <input
+            type="text"
+            placeholder="Filter models..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={`${inputClassName} w-full pl-7`}
+          />
+        </div>
+        <button
+          onClick={() => startEdit('')}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md bg-violet-500/20 text-violet-400 hover:bg-violet-500/30 transition-all"
+        >
+          <Plus className="w-3 h-3" />
+          Add model
+        </button>
+      </div>
+
+      {editing === '' && <div className="mb-3">{renderEditor()}</div>}
+
+      <div className="max-h-[320px] overflow-auto divide-y divide-white/[0.04]">
+        <div className="grid grid-cols-[1fr_repeat(5,64px)_56px] gap-2 pb-2 text-[10px] uppercase tracking-wider text-muted-foreground">
+          <span>Model</span>
+          {rateFields.map(({ key, label }) => (
+            <span key={key} className="text-right">{label}</span>
+          ))}
+          <span />
+        </div>
+        {filteredModels.map(name => {
+          const entries = catalog.models[name]
+          const current = latestEntry(entries)
+          const overridden = !!catalog.overrides.models[name]
+          return (
+            <div key={name} className="py-2 space-y-2">
+              <div className="grid grid-cols-[1fr_repeat(5,64px)_56px] gap-2 items-center text-xs">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1.5">
+                    <span className="font-mono text-foreground truncate" title={name}>{name}</span>
+                    {overridden && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-violet-500/20 text-violet-400">custom</span>
+                    )}
+                  </div>
+                  <span className="text-[10px] text-muted-foreground">
+                    {entries.length > 1
+                      ? entries.map(entry => entry.effectiveFrom).join(' → ')
+                      : `since ${current?.effectiveFrom}`}
+                  </span>
+                </div>
+                {rateFields.map(({ key }) => (
+                  <span key={key} className="text-right font-mono text-muted-foreground">
+                    {current ? current[key] : '—'}
+                  </span>
+                ))}
+                <div className="flex justify-end gap-1">
+                  <button
+                    onClick={() => startEdit(name)}
+                    title="Add rates"
+                    className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-white/[0.04] transition-all"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  {overridden && (
+                    <button
+                      onClick={() => handleReset(name)}
+                      disabled={saving}
+                      title="Reset to bundled rates"
+                      className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-white/[0.04] transition-all"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {editing === name && renderEditor()}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-white/[0.04]">
+        <div className="mb-2 text-[10px] uppercase tracking-wider text-muted-foreground">
+          Aliases · model ids containing the alias are priced as the target
+        </div>
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {aliasEntries.map(([name, target]) => (
+            <span key={name} className="flex items-center gap-1 px-2 py-1 text-[10px] rounded-md bg-white/[0.04] text-muted-foreground">
+              <span className="font-mono text-foreground">{name}</span> → <span className="font-mono">{target}</span>
+              {catalog.overrides.aliases[name] && (
+                <button
+                  onClick={() => handleRemoveAlias(name)}
+                  disabled={saving}
+                  title="Remove alias"
+                  className="ml-0.5 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+          <input
+            type="text"
+            placeholder="Alias"
+            value={alias.name}
+            onChange={(e) => setAlias({ ...alias, name: e.target.value })}
+            className={inputClassName}
+          />
+          <select
+            value={alias.model}
+            onChange={(e) => setAlias({ ...alias, model: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="" disabled>Priced as...</option>
+            {modelNames.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAddAlias}
+            disabled={saving || !alias.name.trim() || !alias.model}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md bg-violet-500/20 text-violet-400 hover:bg-violet-500/30 transition-all disabled:opacity-40"
+          >
+            <Plus className="w-3 h-3" />
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
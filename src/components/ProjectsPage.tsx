@@ -1,9 +1,13 @@
 import { useMemo, useState } from 'react'
-import { FolderKanban, Clock, Zap, DollarSign, Search, ChevronDown, ChevronUp, Filter } from 'lucide-react'
-import type { ProjectStats } from '@/types/electron'
+import { FolderKanban, Clock, Zap, DollarSign, Search, ChevronDown, ChevronUp, Filter, Wallet } from 'lucide-react'
+import { BudgetProgress, describeBudgetScope } from '@/components/BudgetProgress'
+import type { Account, BudgetStatus, ProjectStats } from '@/types/electron'
 
 interface ProjectsPageProps {
   projects: Record<string, ProjectStats>
+  budgets: BudgetStatus[]
+  // Names of account budgets
+  accounts: Account[]
 }
 
 type SortKey = 'name' | 'sessions' | 'tokens' | 'cost' | 'lastActivity'
@@ -46,7 +50,7 @@ function formatTimeAgo(dateStr: string | null): string {
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
 }
 
-export function ProjectsPage({ projects }: ProjectsPageProps) {
+export function ProjectsPage({ projects, budgets, accounts }: ProjectsPageProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [sortKey, setSortKey] = useState<SortKey>('lastActivity')
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc')
@@ -108,6 +112,23 @@ export function ProjectsPage({ projects }: ProjectsPageProps) {
     })
   }, [projects, searchQuery, sortKey, sortOrder, providerFilter])
 
+  // Project budgets by project key; other scopes are shown above the table
+  const projectBudgets = useMemo(() => {
+    const byProject: Record<string, BudgetStatus[]> = {}
+    budgets.forEach(status => {
+      if (status.budget.scope !== 'project' || !status.budget.scopeValue) return
+      const key = status.budget.scopeValue
+      if (!byProject[key]) byProject[key] = []
+      byProject[key].push(status)
+    })
+    return byProject
+  }, [budgets])
+
+  const sharedBudgets = useMemo(
+    () => budgets.filter(status => status.budget.scope !== 'project'),
+    [budgets]
+  )
+
   // Calculate totals based on filtered projects
   const totals = useMemo(() => {
     return sortedProjects.reduce(
@@ -234,6 +255,19 @@ export function ProjectsPage({ projects }: ProjectsPageProps) {
         </div>
       </div>
 
+      {/* Global and provider budgets */}
+      {sharedBudgets.length > 0 && (
+        <div className="p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04] space-y-3">
+          <div className="flex items-center gap-2">
+            <Wallet className="w-4 h-4 text-violet-400" />
+            <h3 className="text-sm font-semibold text-foreground">Budgets</h3>
+          </div>
+          {sharedBudgets.map(status => (
+            <BudgetProgress key={status.budget.id} status={status} label={describeBudgetScope(status, accounts)} />
+          ))}
+        </div>
+      )}
+
       {/* Search Bar */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
@@ -300,14 +334,19 @@ export function ProjectsPage({ projects }: ProjectsPageProps) {
                   key={project.name}
                   className="grid grid-cols-[1fr_100px_120px_100px_100px] gap-4 px-4 py-3 hover:bg-white/[0.02] transition-colors items-center"
                 >
-                  <div className="flex items-center gap-3 min-w-0">
-                    <div className={`w-2 h-2 rounded-full ${colors.text.replace('text-', 'bg-')}`} />
-                    <span className="text-sm font-medium text-foreground truncate" title={project.name}>
-                      {project.name}
-                    </span>
-                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${colors.activeBg} ${colors.text}`}>
-                      {project.provider}
-                    </span>
+                  <div className="min-w-0 space-y-1.5">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className={`w-2 h-2 rounded-full ${colors.text.replace('text-', 'bg-')}`} />
+                      <span className="text-sm font-medium text-foreground truncate" title={project.name}>
+                        {project.name}
+                      </span>
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded ${colors.activeBg} ${colors.text}`}>
+                        {project.provider}
+                      </span>
+                    </div>
+                    {projectBudgets[project.name]?.map(status => (
+                      <BudgetProgress key={status.budget.id} status={status} compact />
+                    ))}
                   </div>
                   <div className="text-sm text-muted-foreground">
                     {project.sessions}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react'
+import { Gauge } from 'lucide-react'
+import type { RateLimitSnapshot, RateLimitWindow } from '@/types/electron'
+
+interface RateLimitGaugesProps {
+  rateLimits: RateLimitSnapshot | null
+  compact?: boolean
+  className?: string
+}
+
+// Label a window by its length, e.g. 300 -> "5h window", 10080 -> "Weekly window"
+function windowLabel(windowMinutes: number, compact: boolean): string {
+  if (windowMinutes === 7 * 24 * 60) return compact ? 'Wk' : 'Weekly window'
+  if (windowMinutes >= 24 * 60 && windowMinutes % (24 * 60) === 0) {
+    return compact ? `${windowMinutes / (24 * 60)}d` : `${windowMinutes / (24 * 60)}d window`
+  }
+  const hours = Math.round(windowMinutes / 60)
+  return compact ? `${hours}h` : `${hours}h window`
+}
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`
+}
+
+function gaugeColor(percent: number): string {
+  if (percent >= 90) return 'bg-red-500'
+  if (percent >= 70) return 'bg-amber-500'
+  return 'bg-emerald-500'
+}
+
+// A window whose reset time has passed has started over, so the snapshot no longer applies
+function windowState(window: RateLimitWindow, now: number): { percent: number; resetIn: number | null } {
+  const resetTime = window.resetsAt ? new Date(window.resetsAt).getTime() : null
+  if (resetTime !== null && resetTime <= now) {
+    return { percent: 0, resetIn: null }
+  }
+  return {
+    percent: Math.min(100, Math.max(0, window.usedPercent)),
+    resetIn: resetTime === null ? null : resetTime - now,
+  }
+}
+
+export function RateLimitGauges({ rateLimits, compact = false, className = '' }: RateLimitGaugesProps) {
+  const [now, setNow] = useState(Date.now())
+
+  // Tick so reset countdowns stay live between data refreshes
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(intervalId)
+  }, [])
+
+  const windows = [rateLimits?.primary, rateLimits?.secondary].filter(
+    (w): w is RateLimitWindow => !!w
+  )
+  if (windows.length === 0) return null
+
+  if (compact) {
+    return (
+      <div className={`flex items-center gap-2 ${className}`}>
+        {windows.map((window, idx) => {
+          const { percent, resetIn } = windowState(window, now)
+          return (
+            <div key={idx} className="flex items-center gap-1 flex-1 min-w-0">
+              <span className="text-muted-foreground flex-shrink-0">{windowLabel(window.windowMinutes, true)}</span>
+              <div className="flex-1 h-1 bg-white/[0.06] rounded-full overflow-hidden">
+                <div className={`h-full ${gaugeColor(percent)}`} style={{ width: `${percent}%` }} />
+              </div>
+              <span className="font-mono text-foreground flex-shrink-0">{Math.round(percent)}%</span>
+              {resetIn !== null && (
+                <span className="text-muted-foreground/70 flex-shrink-0">{formatCountdown(resetIn)}</span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  return (
+    <div className={`p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04] ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-emerald-400" />
+          <h3 className="text-sm font-semibold text-foreground">Codex Plan Limits</h3>
+        </div>
+        {rateLimits && (
+          <span className="text-[10px] text-muted-foreground">
+            as of {new Date(rateLimits.timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {windows.map((window, idx) => {
+          const { percent, resetIn } = windowState(window, now)
+          return (
+            <div key={idx} className="space-y-1.5">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">{windowLabel(window.windowMinutes, false)}</span>
+                <span className="font-mono font-semibold text-foreground">{percent.toFixed(1)}%</span>
+              </div>
+              <div className="h-2 bg-white/[0.06] rounded-full overflow-hidden">
+                <div className={`h-full rounded-full transition-all ${gaugeColor(percent)}`} style={{ width: `${percent}%` }} />
+              </div>
+              <div className="text-[10px] text-muted-foreground">
+                {resetIn === null ? 'Window has reset' : `Resets in ${formatCountdown(resetIn)}`}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+import { Fragment, useCallback, useEffect, useRef, useState } from 'react'
+import { Search, Loader2, X, User, Bot } from 'lucide-react'
+import type { MessageSearchQuery, MessageSearchResult } from '@/types/electron'
+import { localDayToIso } from '@/lib/utils'
+
+interface SearchPageProps {
+  // Search text, shared with the title bar search box
+  text: string
+  onTextChange: (text: string) => void
+  // Filter options, from UsageData.byProject
+  projects: string[]
+  // Account filter from the title bar; null for all accounts
+  account: string | null
+  onOpenResult?: (result: MessageSearchResult) => void
+}
+
+interface SearchFilters {
+  provider: string
+  project: string
+  // YYYY-MM-DD, local
+  from: string
+  to: string
+}
+
+const PAGE_SIZE = 50
+
+const emptyFilters: SearchFilters = { provider: '', project: '', from: '', to: '' }
+
+const providerColors: Record<string, string> = {
+  claude: 'bg-orange-500/20 text-orange-400',
+  codex: 'bg-emerald-500/20 text-emerald-400',
+  gemini: 'bg-blue-500/20 text-blue-400',
+}
+
+const inputClassName = 'h-8 px-2 bg-[#0f0f18]/80 border border-white/[0.06] rounded-md text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-violet-500/50'
+
+function buildQuery(text: string, filters: SearchFilters, account: string | null, offset: number): MessageSearchQuery {
+  return {
+    text,
+    provider: filters.provider || undefined,
+    account: account || undefined,
+    project: filters.project || undefined,
+    start: filters.from ? localDayToIso(filters.from) : undefined,
+    end: filters.to ? localDayToIso(filters.to, 1) : undefined,
+    offset,
+    limit: PAGE_SIZE,
+  }
+}
+
+export function SearchPage({ text, onTextChange, projects, account, onOpenResult }: SearchPageProps) {
+  const [query, setQuery] = useState(text.trim())
+  const [filters, setFilters] = useState<SearchFilters>(emptyFilters)
+  const [results, setResults] = useState<MessageSearchResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Bumped on every new query so late responses for old searches are dropped
+  const queryIdRef = useRef(0)
+
+  // Debounce typing
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setQuery(text.trim()), 300)
+    return () => clearTimeout(timeoutId)
+  }, [text])
+
+  const loadPage = useCallback(async (offset: number) => {
+    const queryId = offset === 0 ? ++queryIdRef.current : queryIdRef.current
+    if (!query) {
+      setResults([])
+      setTotal(0)
+      setError(null)
+      return
+    }
+
+    setLoading(true)
+    const result = await window.electronAPI?.searchMessages(buildQuery(query, filters, account, offset))
+    if (queryId !== queryIdRef.current) return
+
+    if (result?.success && result.data) {
+      const page = result.data
+      setResults(current => (offset === 0 ? page.results : [...current, ...page.results]))
+      setTotal(page.total)
+      setError(null)
+    } else {
+      setError(result?.error || 'Search failed')
+    }
+    setLoading(false)
+  }, [query, filters, account])
+
+  useEffect(() => {
+    loadPage(0)
+  }, [loadPage])
+
+  const updateFilter = (patch: Partial<SearchFilters>) => setFilters(current => ({ ...current, ...patch }))
+
+  const hasFilters = Object.values(filters).some(value => value !== '')
+
+  return (
+    <div className="flex flex-col h-full p-5 gap-4">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="w-9 h-9 flex items-center justify-center bg-gradient-to-br from-amber-500/20 to-orange-500/10 rounded-xl border border-amber-500/20">
+          <Search className="w-4 h-4 text-amber-400" />
+        </div>
+        <div>
+          <h1 className="text-lg font-semibold text-foreground">Search</h1>
+          <p className="text-xs text-muted-foreground">
+            {query ? `${total.toLocaleString()} matching messages` : 'Prompts and responses across all sessions'}
+          </p>
+        </div>
+      </div>
+
+      {/* Search & Filters */}
+      <div className="space-y-2">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="text"
+            autoFocus
+            placeholder="Search prompts and responses..."
+            value={text}
+            onChange={(e) => onTextChange(e.target.value)}
+            className="w-full h-10 pl-10 pr-4 bg-[#0f0f18]/80 border border-white/[0.06] rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-violet-500/50 focus:ring-1 focus:ring-violet-500/20 transition-all"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={filters.provider} onChange={(e) => updateFilter({ provider: e.target.value })} className={inputClassName}>
+            <option value="">All providers</option>
+            <option value="claude">Claude</option>
+            <option value="codex">Codex</option>
+          </select>
+          <select value={filters.project} onChange={(e) => updateFilter({ project: e.target.value })} className={`${inputClassName} max-w-[180px]`}>
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project} value={project}>{project}</option>
+            ))}
+          </select>
+          <input type="date" value={filters.from} onChange={(e) => updateFilter({ from: e.target.value })} className={inputClassName} title="From" />
+          <span className="text-xs text-muted-foreground">→</span>
+          <input type="date" value={filters.to} onChange={(e) => updateFilter({ to: e.target.value })} className={inputClassName} title="To" />
+          {hasFilters && (
+            <button
+              onClick={() => setFilters(emptyFilters)}
+              className="flex items-center gap-1 h-8 px-2 text-xs text-muted-foreground hover:text-foreground rounded-md hover:bg-white/[0.04] transition-all"
+            >
+              <X className="w-3 h-3" />
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 min-h-0 overflow-auto space-y-2 pr-1">
+        {error ? (
+          <div className="px-4 py-8 text-center text-sm text-red-400">{error}</div>
+        ) : !query ? (
+          <div className="px-4 py-8 text-center text-sm text-muted-foreground">Type to search your sessions</div>
+        ) : results.length === 0 && !loading ? (
+          <div className="px-4 py-8 text-center text-sm text-muted-foreground">No messages match your search</div>
+        ) : (
+          results.map(result => (
+            <SearchResultCard
+              key={result.id}
+              result={result}
+              onClick={onOpenResult ? () => onOpenResult(result) : undefined}
+            />
+          ))
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-2 text-xs text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Searching...
+          </div>
+        ) : results.length < total && (
+          <button
+            onClick={() => loadPage(results.length)}
+            className="w-full py-2 text-xs text-violet-400 hover:text-violet-300 transition-colors"
+          >
+            Show more ({(total - results.length).toLocaleString()} remaining)
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Renders an FTS snippet, marking the terms wrapped in \u0002 ... \u0003
+function SnippetText({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/\u0002(.*?)\u0003/)
+  return (
+    <>
+      {parts.map((part, idx) =>
+        idx % 2 === 1 ? (
+          <mark key={idx} className="bg-amber-400/30 text-foreground rounded-sm">{part}</mark>
+        ) : (
+          <Fragment key={idx}>{part}</Fragment>
+        )
+      )}
+    </>
+  )
+}
+
+function SearchResultCard({ result, onClick }: { result: MessageSearchResult; onClick?: () => void }) {
+  const { session } = result
+  const project = session.project || `${session.provider}-sessions`
+  const RoleIcon = result.role === 'user' ? User : Bot
+
+  return (
+    <div
+      onClick={onClick}
+      className={`p-3 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04] hover:border-white/10 transition-all ${onClick ? 'cursor-pointer' : ''}`}
+    >
+      <div className="flex items-center gap-2 mb-1.5 text-xs">
+        <span className={`text-[10px] px-1.5 py-0.5 rounded ${providerColors[session.provider] || providerColors.gemini}`}>
+          {session.provider}
+        </span>
+        <span className="font-medium text-foreground truncate" title={project}>{project}</span>
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <RoleIcon className="w-3 h-3" />
+          {result.role === 'user' ? 'User' : 'Assistant'}
+        </span>
+        <span className="ml-auto text-muted-foreground whitespace-nowrap">
+          {result.timestamp ? new Date(result.timestamp).toLocaleString() : ''}
+        </span>
+      </div>
+      <div className="text-sm text-muted-foreground whitespace-pre-wrap break-words line-clamp-3">
+        <SnippetText snippet={result.snippet} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,321 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ArrowLeft, Loader2, Wrench } from 'lucide-react'
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+import { VirtualList } from '@/components/VirtualList'
+import { TranscriptView } from '@/components/TranscriptView'
+import { formatNumber, formatCurrency, shortModelName } from '@/lib/utils'
+import type { Session, SessionDetail, SessionTurn } from '@/types/electron'
+
+interface SessionDetailPageProps {
+  session: Session
+  onBack: () => void
+  // Open on the transcript with this in-session search
+  search?: string
+}
+
+const ROW_HEIGHT = 44
+
+type DetailTab = 'timeline' | 'transcript'
+
+// Providers whose logs keep the conversation text
+const TRANSCRIPT_PROVIDERS = ['claude', 'codex']
+
+const gridClassName = 'grid grid-cols-[40px_70px_110px_70px_70px_90px_70px_1fr] gap-3'
+
+const providerColors: Record<string, string> = {
+  claude: 'bg-orange-500/20 text-orange-400',
+  codex: 'bg-emerald-500/20 text-emerald-400',
+  gemini: 'bg-blue-500/20 text-blue-400',
+}
+
+const cardClassName = 'p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04]'
+
+function formatClock(dateStr: string | null): string {
+  if (!dateStr) return '—'
+  return new Date(dateStr).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  if (minutes < 60) return `${minutes}m`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+function ChartTooltip({ active, payload, label, formatValue }: {
+  active?: boolean
+  payload?: Array<{ name: string; value: number; color: string }>
+  label?: number
+  formatValue: (value: number) => string
+}) {
+  if (!active || !payload?.length) return null
+
+  return (
+    <div className="bg-[#12121a]/95 backdrop-blur-xl border border-white/[0.08] rounded-xl p-3 shadow-2xl">
+      <p className="text-xs font-semibold text-foreground mb-2">Turn {label}</p>
+      {payload.map((entry, idx) => (
+        <div key={idx} className="flex items-center gap-2 text-xs">
+          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }} />
+          <span className="text-muted-foreground">{entry.name}:</span>
+          <span className="font-medium text-foreground">{formatValue(entry.value)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function SessionDetailPage({ session, onBack, search }: SessionDetailPageProps) {
+  const [detail, setDetail] = useState<SessionDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [tab, setTab] = useState<DetailTab>(search ? 'transcript' : 'timeline')
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    window.electronAPI?.getSessionDetail(session.path).then(result => {
+      if (cancelled) return
+      if (result?.success && result.data) {
+        setDetail(result.data)
+        setError(null)
+      } else {
+        setError(result?.error || 'Failed to load session')
+      }
+      setLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [session.path])
+
+  const turns = detail?.turns || []
+  const summary = detail?.session || session
+  const project = summary.project || `${summary.provider}-sessions`
+
+  const chartData = useMemo(
+    () => turns.map(turn => ({
+      turn: turn.index,
+      cumulativeCost: turn.cumulativeCostUsd,
+      contextTokens: turn.contextTokens,
+    })),
+    [turns]
+  )
+
+  // Until the file is re-read (or when it's gone) fall back to the stored per-model turn counts
+  const turnCount = detail ? turns.length : Object.values(session.models || {}).reduce((sum, model) => sum + model.turns, 0)
+  const toolCallCount = detail ? turns.reduce((sum, turn) => sum + turn.toolCalls.length, 0).toLocaleString() : '—'
+
+  return (
+    <div className="flex flex-col h-full p-5 gap-4">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onBack}
+          className="w-9 h-9 flex items-center justify-center rounded-xl border border-white/[0.06] text-muted-foreground hover:text-foreground hover:bg-white/[0.04] transition-all"
+          title="Back"
+        >
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h1 className="text-lg font-semibold text-foreground truncate" title={project}>{project}</h1>
+            <span className={`text-[10px] px-1.5 py-0.5 rounded ${providerColors[summary.provider] || providerColors.gemini}`}>
+              {summary.provider}
+            </span>
+            {session.archived && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-white/[0.06] text-muted-foreground" title="Source file was deleted">
+                archived
+              </span>
+            )}
+          </div>
+          <p className="text-xs font-mono text-muted-foreground truncate" title={summary.path}>{summary.sessionId}</p>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <SummaryStat label="Turns" value={turnCount.toLocaleString()} />
+        <SummaryStat label="Tokens" value={formatNumber(summary.inputTokens + summary.outputTokens)} />
+        <SummaryStat label="Cost" value={formatCurrency(summary.costUsd)} valueClassName="text-emerald-400" />
+        <SummaryStat label="Tool Calls" value={toolCallCount} />
+        <SummaryStat label="Duration" value={formatDuration(summary.duration)} />
+      </div>
+
+      {TRANSCRIPT_PROVIDERS.includes(summary.provider) && !session.archived && (
+        <div className="flex items-center gap-1 p-1 self-start bg-[#0f0f18]/80 rounded-lg border border-white/[0.04]">
+          {(['timeline', 'transcript'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-3 py-1 text-xs font-medium rounded-md capitalize transition-all ${
+                tab === value ? 'bg-white/[0.08] text-foreground' : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {tab === 'transcript' ? (
+        <TranscriptView path={session.path} initialSearch={search} />
+      ) : loading ? (
+        <div className="flex flex-1 items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Reading session...
+        </div>
+      ) : error ? (
+        <div className="px-4 py-8 text-center text-sm text-red-400">{error}</div>
+      ) : turns.length === 0 ? (
+        <div className="px-4 py-8 text-center text-sm text-muted-foreground">No turns with token usage in this session</div>
+      ) : (
+        <>
+          {/* Charts */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className={cardClassName}>
+              <h2 className="text-sm font-semibold text-foreground mb-3">Cumulative Cost</h2>
+              <div className="h-[160px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                    <defs>
+                      <linearGradient id="cumulativeCostGradient" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#10b981" stopOpacity={0.3} />
+                        <stop offset="95%" stopColor="#10b981" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.04)" />
+                    <XAxis
+                      dataKey="turn"
+                      stroke="rgba(255,255,255,0.2)"
+                      tick={{ fill: 'rgba(255,255,255,0.5)', fontSize: 10 }}
+                      axisLine={{ stroke: 'rgba(255,255,255,0.06)' }}
+                    />
+                    <YAxis
+                      stroke="rgba(255,255,255,0.2)"
+                      tick={{ fill: 'rgba(255,255,255,0.5)', fontSize: 10 }}
+                      axisLine={{ stroke: 'rgba(255,255,255,0.06)' }}
+                      tickFormatter={(value) => `$${value}`}
+                    />
+                    <Tooltip content={<ChartTooltip formatValue={formatCurrency} />} />
+                    <Area
+                      type="monotone"
+                      dataKey="cumulativeCost"
+                      name="Cost"
+                      stroke="#10b981"
+                      strokeWidth={2}
+                      fill="url(#cumulativeCostGradient)"
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className={cardClassName}>
+              <h2 className="text-sm font-semibold text-foreground mb-3">Context Size per Turn</h2>
+              <div className="h-[160px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.04)" />
+                    <XAxis
+                      dataKey="turn"
+                      stroke="rgba(255,255,255,0.2)"
+                      tick={{ fill: 'rgba(255,255,255,0.5)', fontSize: 10 }}
+                      axisLine={{ stroke: 'rgba(255,255,255,0.06)' }}
+                    />
+                    <YAxis
+                      stroke="rgba(255,255,255,0.2)"
+                      tick={{ fill: 'rgba(255,255,255,0.5)', fontSize: 10 }}
+                      axisLine={{ stroke: 'rgba(255,255,255,0.06)' }}
+                      tickFormatter={formatNumber}
+                    />
+                    <Tooltip content={<ChartTooltip formatValue={(value) => value.toLocaleString()} />} />
+                    <Bar dataKey="contextTokens" name="Context Tokens" fill="#3b82f6" radius={[2, 2, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          {/* Turns */}
+          <div className="flex flex-col flex-1 min-h-[200px] bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04] overflow-hidden">
+            <div className={`${gridClassName} px-4 py-3 bg-black/20 border-b border-white/[0.04] text-xs font-medium text-muted-foreground`}>
+              <div>#</div>
+              <div>Time</div>
+              <div>Model</div>
+              <div>Input</div>
+              <div>Output</div>
+              <div>Cache R/W</div>
+              <div>Cost</div>
+              <div>Tools</div>
+            </div>
+            <VirtualList
+              items={turns}
+              rowHeight={ROW_HEIGHT}
+              getKey={(turn) => String(turn.index)}
+              className="flex-1"
+              renderRow={(turn) => <TurnRow turn={turn} />}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function SummaryStat({ label, value, valueClassName = 'text-foreground' }: { label: string; value: string; valueClassName?: string }) {
+  return (
+    <div className={cardClassName}>
+      <div className="text-[10px] uppercase tracking-wider text-muted-foreground">{label}</div>
+      <div className={`text-lg font-mono font-semibold ${valueClassName}`}>{value}</div>
+    </div>
+  )
+}
+
+function TurnRow({ turn }: { turn: SessionTurn }) {
+  const toolTitle = turn.toolCalls.map(call => (call.summary ? `${call.name}: ${call.summary}` : call.name)).join('\n')
+
+  return (
+    <div className={`${gridClassName} h-full px-4 items-center border-b border-white/[0.04] hover:bg-white/[0.02] transition-colors`}>
+      <div className="text-xs text-muted-foreground">{turn.index}</div>
+      <div className="text-xs font-mono text-muted-foreground">{formatClock(turn.timestamp)}</div>
+      <div className="text-xs text-muted-foreground truncate" title={turn.model || undefined}>
+        {turn.model ? shortModelName(turn.model) : '—'}
+      </div>
+      <div className="text-sm font-mono text-foreground" title={turn.cachedInputTokens ? `${turn.cachedInputTokens.toLocaleString()} cached` : undefined}>
+        {formatNumber(turn.inputTokens)}
+      </div>
+      <div className="text-sm font-mono text-foreground" title={turn.reasoningOutputTokens ? `${turn.reasoningOutputTokens.toLocaleString()} reasoning` : undefined}>
+        {formatNumber(turn.outputTokens)}
+      </div>
+      <div className="text-xs font-mono text-muted-foreground">
+        {formatNumber(turn.cacheReadTokens)} / {formatNumber(turn.cacheCreationTokens)}
+      </div>
+      <div className="text-sm font-mono text-emerald-400">{formatCurrency(turn.costUsd)}</div>
+      <div className="flex items-center gap-1 min-w-0 overflow-hidden" title={toolTitle || undefined}>
+        {turn.toolCalls.length === 0 ? (
+          <span className="text-xs text-muted-foreground/50">—</span>
+        ) : (
+          <>
+            <Wrench className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+            {turn.toolCalls.map((call, idx) => (
+              <span key={idx} className="flex-shrink-0 text-[10px] px-1.5 py-0.5 rounded bg-violet-500/15 text-violet-300">
+                {call.name}
+              </span>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { formatNumber, formatDate } from '@/lib/utils'
+import { formatNumber, formatDate, shortModelName } from '@/lib/utils'
 
 interface Session {
   sessionId: string
@@ -7,10 +7,12 @@ interface Session {
   inputTokens: number
   outputTokens: number
   lastMessage: string | null
+  models?: Record<string, { costUsd: number }>
 }
 
 interface SessionItemProps {
   session: Session
+  onClick?: () => void
 }
 
 const providerBadgeColors: Record<string, string> = {
@@ -18,11 +20,18 @@ const providerBadgeColors: Record<string, string> = {
   codex: 'bg-emerald-500/20 text-emerald-300',
 }
 
-export function SessionItem({ session }: SessionItemProps) {
+export function SessionItem({ session, onClick }: SessionItemProps) {
   const badgeColor = providerBadgeColors[session.provider] || 'bg-blue-500/20 text-blue-300'
+  // Most expensive model first
+  const models = Object.entries(session.models || {})
+    .sort(([, a], [, b]) => b.costUsd - a.costUsd)
+    .map(([model]) => shortModelName(model))
 
   return (
-    <div className="flex items-center justify-between p-4 bg-card/40 backdrop-blur rounded-xl border border-border/30 hover:bg-card/60 hover:border-white/10 transition-all">
+    <div
+      onClick={onClick}
+      className={`flex items-center justify-between p-4 bg-card/40 backdrop-blur rounded-xl border border-border/30 hover:bg-card/60 hover:border-white/10 transition-all ${onClick ? 'cursor-pointer' : ''}`}
+    >
       <div className="flex flex-col min-w-0">
         <span 
           className="font-mono text-sm text-foreground truncate max-w-[200px]" 
@@ -37,6 +46,11 @@ export function SessionItem({ session }: SessionItemProps) {
           <span className="text-xs text-muted-foreground">
             {session.messages} msgs
           </span>
+          {models.length > 0 && (
+            <span className="text-xs text-muted-foreground/70 truncate max-w-[180px]" title={models.join(', ')}>
+              {models.join(' · ')}
+            </span>
+          )}
         </div>
       </div>
       
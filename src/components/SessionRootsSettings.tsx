@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react'
+import { FolderOpen, Plus, Trash2, Loader2, AlertTriangle } from 'lucide-react'
+import type { SessionRootConfig, SessionRootInfo } from '@/types/electron'
+
+interface SessionRootsSettingsProps {
+  onSaved?: () => void
+}
+
+// Gemini is hidden throughout the app
+const rootProviders: { key: string; label: string; placeholder: string }[] = [
+  { key: 'claude', label: 'Claude', placeholder: '/mnt/wsl/home/me/.claude/projects' },
+  { key: 'codex', label: 'Codex', placeholder: '/mnt/devvm/home/me/.codex/sessions' },
+]
+
+const inputClassName = 'h-8 px-2 bg-black/20 border border-white/[0.06] rounded-md text-xs text-foreground focus:outline-none focus:border-blue-500/50'
+
+function describeOrigin(root: SessionRootInfo): string {
+  if (root.detectedFrom === null) return 'Custom'
+  if (root.detectedFrom === 'default') return 'Default'
+  return root.detectedFrom
+}
+
+// Roots added in Settings, in the shape they are saved
+function customRoots(roots: SessionRootInfo[]): SessionRootConfig {
+  const config: SessionRootConfig = { claude: [], codex: [], gemini: [] }
+  for (const root of roots) {
+    if (root.detectedFrom === null) config[root.provider] = [...(config[root.provider] || []), root.path]
+  }
+  return config
+}
+
+export function SessionRootsSettings({ onSaved }: SessionRootsSettingsProps) {
+  const [roots, setRoots] = useState<SessionRootInfo[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  // Validation message of the path being added, per provider
+  const [draftErrors, setDraftErrors] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.electronAPI?.getSessionRoots().then(result => {
+      if (result?.success && result.data) setRoots(result.data)
+    })
+  }, [])
+
+  const saveRoots = async (config: SessionRootConfig) => {
+    setSaving(true)
+    setError(null)
+    const result = await window.electronAPI?.saveSessionRoots(config)
+    if (result?.success && result.data) setRoots(result.data)
+    else if (result?.error) setError(result.error)
+    setSaving(false)
+    onSaved?.()
+  }
+
+  const handleAdd = async (provider: string) => {
+    const draft = (drafts[provider] || '').trim()
+    if (!draft) return
+
+    const result = await window.electronAPI?.inspectSessionRoot(provider, draft)
+    if (!result?.success || !result.data) {
+      setDraftErrors({ ...draftErrors, [provider]: result?.error || 'Could not check this folder' })
+      return
+    }
+    const info = result.data
+    if (info.error) {
+      setDraftErrors({ ...draftErrors, [provider]: info.error })
+      return
+    }
+    if (roots.some(root => root.provider === provider && root.path === info.path)) {
+      setDraftErrors({ ...draftErrors, [provider]: 'Already in the list' })
+      return
+    }
+
+    setDraftErrors({ ...draftErrors, [provider]: '' })
+    setDrafts({ ...drafts, [provider]: '' })
+    const config = customRoots(roots)
+    await saveRoots({ ...config, [provider]: [...(config[provider] || []), info.path] })
+  }
+
+  const handleRemove = async (root: SessionRootInfo) => {
+    const config = customRoots(roots)
+    await saveRoots({ ...config, [root.provider]: (config[root.provider] || []).filter(path => path !== root.path) })
+  }
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04]">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 flex items-center justify-center bg-cyan-500/10 rounded-lg">
+            <FolderOpen className="w-4 h-4 text-cyan-400" />
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-foreground">Session Folders</h3>
+            <p className="text-xs text-muted-foreground">
+              Where session logs are read from; detected folders follow CLAUDE_CONFIG_DIR and CODEX_HOME
+            </p>
+          </div>
+        </div>
+        {saving && (
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Syncing sessions...
+          </span>
+        )}
+      </div>
+
+      {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+
+      <div className="space-y-4">
+        {rootProviders.map(({ key, label, placeholder }) => (
+          <div key={key} className="space-y-1.5">
+            <div className="text-xs font-medium text-foreground">{label}</div>
+            {roots.filter(root => root.provider === key).map(root => (
+              <div key={root.path} className="flex items-center gap-2 px-2 py-1.5 bg-black/20 rounded-md text-xs">
+                <span className="flex-1 font-mono text-foreground/90 truncate" title={root.path}>{root.path}</span>
+                <span className="px-1.5 py-0.5 text-[10px] rounded bg-white/[0.06] text-muted-foreground">{describeOrigin(root)}</span>
+                {root.error ? (
+                  <span className="flex items-center gap-1 text-amber-400">
+                    <AlertTriangle className="w-3 h-3" />
+                    {root.error}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">{root.sessionFiles.toLocaleString()} sessions</span>
+                )}
+                {root.detectedFrom === null && (
+                  <button
+                    onClick={() => handleRemove(root)}
+                    disabled={saving}
+                    className="p-1 text-muted-foreground hover:text-red-400 transition-colors disabled:opacity-40"
+                    title="Remove folder"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                placeholder={placeholder}
+                value={drafts[key] || ''}
+                onChange={(e) => {
+                  setDrafts({ ...drafts, [key]: e.target.value })
+                  setDraftErrors({ ...draftErrors, [key]: '' })
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAdd(key)
+                }}
+                className={`${inputClassName} flex-1 font-mono`}
+              />
+              <button
+                onClick={() => handleAdd(key)}
+                disabled={saving || !(drafts[key] || '').trim()}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30 transition-all disabled:opacity-40"
+              >
+                <Plus className="w-3 h-3" />
+                Add folder
+              </button>
+            </div>
+            {draftErrors[key] && <p className="text-[11px] text-red-400">{draftErrors[key]}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
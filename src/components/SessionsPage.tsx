@@ -0,0 +1,285 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { History, Search, ChevronDown, ChevronUp, Loader2, X } from 'lucide-react'
+import { VirtualList } from '@/components/VirtualList'
+import { formatNumber, formatCurrency, formatDate, shortModelName, localDayToIso } from '@/lib/utils'
+import type { Session, SessionQuery, SessionSortKey } from '@/types/electron'
+
+interface SessionsPageProps {
+  // Filter options, from UsageData.byProject / byModel
+  projects: string[]
+  models: string[]
+  // Account filter from the title bar; null for all accounts
+  account: string | null
+  onOpenSession?: (session: Session) => void
+}
+
+interface SessionFilters {
+  search: string
+  provider: string
+  project: string
+  model: string
+  // YYYY-MM-DD, local
+  from: string
+  to: string
+  minCost: string
+}
+
+const PAGE_SIZE = 100
+const ROW_HEIGHT = 52
+
+const emptyFilters: SessionFilters = { search: '', provider: '', project: '', model: '', from: '', to: '', minCost: '' }
+
+const columns: { key: SessionSortKey; label: string }[] = [
+  { key: 'project', label: 'Session' },
+  { key: 'provider', label: 'Provider' },
+  { key: 'model', label: 'Model' },
+  { key: 'messages', label: 'Msgs' },
+  { key: 'tokens', label: 'Tokens' },
+  { key: 'cost', label: 'Cost' },
+  { key: 'lastMessage', label: 'Last Activity' },
+]
+
+const gridClassName = 'grid grid-cols-[1fr_80px_130px_60px_80px_80px_100px] gap-3'
+
+const providerColors: Record<string, string> = {
+  claude: 'bg-orange-500/20 text-orange-400',
+  codex: 'bg-emerald-500/20 text-emerald-400',
+  gemini: 'bg-blue-500/20 text-blue-400',
+}
+
+const inputClassName = 'h-8 px-2 bg-[#0f0f18]/80 border border-white/[0.06] rounded-md text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-violet-500/50'
+
+function buildQuery(filters: SessionFilters, account: string | null, sortBy: SessionSortKey, sortOrder: 'asc' | 'desc', offset: number): SessionQuery {
+  return {
+    search: filters.search.trim() || undefined,
+    provider: filters.provider || undefined,
+    account: account || undefined,
+    project: filters.project || undefined,
+    model: filters.model || undefined,
+    start: filters.from ? localDayToIso(filters.from) : undefined,
+    end: filters.to ? localDayToIso(filters.to, 1) : undefined,
+    minCost: Number(filters.minCost) > 0 ? Number(filters.minCost) : undefined,
+    sortBy,
+    sortOrder,
+    offset,
+    limit: PAGE_SIZE,
+  }
+}
+
+export function SessionsPage({ projects, models, account, onOpenSession }: SessionsPageProps) {
+  const [filters, setFilters] = useState<SessionFilters>(emptyFilters)
+  const [search, setSearch] = useState('')
+  const [sortBy, setSortBy] = useState<SessionSortKey>('lastMessage')
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Bumped on every new query so late responses for old filters are dropped
+  const queryIdRef = useRef(0)
+  const loadingRef = useRef(false)
+
+  // Debounce the free-text search
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setFilters(current => ({ ...current, search })), 300)
+    return () => clearTimeout(timeoutId)
+  }, [search])
+
+  const loadPage = useCallback(async (offset: number) => {
+    const queryId = offset === 0 ? ++queryIdRef.current : queryIdRef.current
+    loadingRef.current = true
+    setLoading(true)
+
+    const result = await window.electronAPI?.querySessions(buildQuery(filters, account, sortBy, sortOrder, offset))
+    if (queryId !== queryIdRef.current) return
+
+    if (result?.success && result.data) {
+      const page = result.data
+      setSessions(current => (offset === 0 ? page.sessions : [...current, ...page.sessions]))
+      setTotal(page.total)
+      setError(null)
+    } else {
+      setError(result?.error || 'Failed to load sessions')
+    }
+    loadingRef.current = false
+    setLoading(false)
+  }, [filters, account, sortBy, sortOrder])
+
+  // Restart from the first page whenever the query changes
+  useEffect(() => {
+    loadPage(0)
+  }, [loadPage])
+
+  const handleEndReached = useCallback(() => {
+    if (!loadingRef.current && sessions.length < total) {
+      loadPage(sessions.length)
+    }
+  }, [loadPage, sessions.length, total])
+
+  const handleSort = (key: SessionSortKey) => {
+    if (sortBy === key) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')
+    } else {
+      setSortBy(key)
+      setSortOrder('desc')
+    }
+  }
+
+  const updateFilter = (patch: Partial<SessionFilters>) => setFilters(current => ({ ...current, ...patch }))
+
+  const hasFilters = search !== '' || Object.entries(filters).some(([key, value]) => key !== 'search' && value !== '')
+
+  const clearFilters = () => {
+    setSearch('')
+    setFilters(emptyFilters)
+  }
+
+  return (
+    <div className="flex flex-col h-full p-5 gap-4">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="w-9 h-9 flex items-center justify-center bg-gradient-to-br from-blue-500/20 to-cyan-500/10 rounded-xl border border-blue-500/20">
+          <History className="w-4 h-4 text-blue-400" />
+        </div>
+        <div>
+          <h1 className="text-lg font-semibold text-foreground">Sessions</h1>
+          <p className="text-xs text-muted-foreground">
+            {total.toLocaleString()} {hasFilters ? 'matching ' : ''}sessions
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-2">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="text"
+            placeholder="Search by session id or project..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-full h-10 pl-10 pr-4 bg-[#0f0f18]/80 border border-white/[0.06] rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-violet-500/50 focus:ring-1 focus:ring-violet-500/20 transition-all"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={filters.provider} onChange={(e) => updateFilter({ provider: e.target.value })} className={inputClassName}>
+            <option value="">All providers</option>
+            <option value="claude">Claude</option>
+            <option value="codex">Codex</option>
+            <option value="gemini">Gemini</option>
+          </select>
+          <select value={filters.project} onChange={(e) => updateFilter({ project: e.target.value })} className={`${inputClassName} max-w-[180px]`}>
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project} value={project}>{project}</option>
+            ))}
+          </select>
+          <select value={filters.model} onChange={(e) => updateFilter({ model: e.target.value })} className={`${inputClassName} max-w-[180px]`}>
+            <option value="">All models</option>
+            {models.map(model => (
+              <option key={model} value={model}>{model}</option>
+            ))}
+          </select>
+          <input type="date" value={filters.from} onChange={(e) => updateFilter({ from: e.target.value })} className={inputClassName} title="From" />
+          <span className="text-xs text-muted-foreground">→</span>
+          <input type="date" value={filters.to} onChange={(e) => updateFilter({ to: e.target.value })} className={inputClassName} title="To" />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Min cost $"
+            value={filters.minCost}
+            onChange={(e) => updateFilter({ minCost: e.target.value })}
+            className={`${inputClassName} w-24`}
+          />
+          {hasFilters && (
+            <button
+              onClick={clearFilters}
+              className="flex items-center gap-1 h-8 px-2 text-xs text-muted-foreground hover:text-foreground rounded-md hover:bg-white/[0.04] transition-all"
+            >
+              <X className="w-3 h-3" />
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Sessions Table */}
+      <div className="flex flex-col flex-1 min-h-0 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04] overflow-hidden">
+        <div className={`${gridClassName} px-4 py-3 bg-black/20 border-b border-white/[0.04] text-xs font-medium text-muted-foreground`}>
+          {columns.map(column => (
+            <button
+              key={column.key}
+              onClick={() => handleSort(column.key)}
+              className="flex items-center gap-1 hover:text-foreground transition-colors text-left"
+            >
+              {column.label}
+              {sortBy === column.key && (sortOrder === 'asc' ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />)}
+            </button>
+          ))}
+        </div>
+
+        {error ? (
+          <div className="px-4 py-8 text-center text-sm text-red-400">{error}</div>
+        ) : sessions.length === 0 && !loading ? (
+          <div className="px-4 py-8 text-center text-sm text-muted-foreground">
+            {hasFilters ? 'No sessions match your filters' : 'No sessions found'}
+          </div>
+        ) : (
+          <VirtualList
+            items={sessions}
+            rowHeight={ROW_HEIGHT}
+            getKey={(session) => session.path}
+            onEndReached={handleEndReached}
+            className="flex-1"
+            renderRow={(session) => (
+              <SessionRow session={session} onClick={onOpenSession ? () => onOpenSession(session) : undefined} />
+            )}
+          />
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center gap-2 py-2 text-xs text-muted-foreground border-t border-white/[0.04]">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Loading...
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function SessionRow({ session, onClick }: { session: Session; onClick?: () => void }) {
+  const project = session.project || `${session.provider}-sessions`
+
+  return (
+    <div
+      onClick={onClick}
+      className={`${gridClassName} h-full px-4 items-center border-b border-white/[0.04] hover:bg-white/[0.02] transition-colors ${onClick ? 'cursor-pointer' : ''}`}
+    >
+      <div className="min-w-0">
+        <div className="text-sm font-medium text-foreground truncate" title={project}>{project}</div>
+        <div className="flex items-center gap-1.5 min-w-0">
+          <span className="text-[10px] font-mono text-muted-foreground truncate" title={session.sessionId}>{session.sessionId}</span>
+          {session.archived && (
+            <span className="flex-shrink-0 text-[9px] px-1 rounded bg-white/[0.06] text-muted-foreground" title="Source file was deleted">
+              archived
+            </span>
+          )}
+        </div>
+      </div>
+      <div>
+        <span className={`text-[10px] px-1.5 py-0.5 rounded ${providerColors[session.provider] || providerColors.gemini}`}>
+          {session.provider}
+        </span>
+      </div>
+      <div className="text-xs text-muted-foreground truncate" title={session.model || undefined}>
+        {session.model ? shortModelName(session.model) : '—'}
+      </div>
+      <div className="text-sm text-muted-foreground">{session.messages}</div>
+      <div className="text-sm font-mono text-foreground">{formatNumber(session.inputTokens + session.outputTokens)}</div>
+      <div className="text-sm font-mono text-emerald-400">{formatCurrency(session.costUsd)}</div>
+      <div className="text-xs text-muted-foreground">{formatDate(session.lastMessage)}</div>
+    </div>
+  )
+}
@@ -1,4 +1,10 @@
-import { Settings, Type, RefreshCw } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { Settings, Type, RefreshCw, CalendarClock, Archive } from 'lucide-react'
+import { BudgetSettings } from '@/components/BudgetSettings'
+import { PricingSettings } from '@/components/PricingSettings'
+import { SessionRootsSettings } from '@/components/SessionRootsSettings'
+import { AccountsSettings } from '@/components/AccountsSettings'
+import type { Account, WeeklyCapUnit, WeeklyLimitConfig } from '@/types/electron'
 
 export type FontSize = 'small' | 'medium' | 'large'
 export type RefreshRate = '15min' | '30min' | '1hour'
@@ -10,6 +16,12 @@ interface SettingsPageProps {
   onNormalFontSizeChange: (size: FontSize) => void
   onMiniFontSizeChange: (size: FontSize) => void
   onRefreshRateChange: (rate: RefreshRate) => void
+  // Called after saving settings that change computed usage (caps, budgets...)
+  onUsageSettingsChange?: () => void
+  // Project keys offered as budget scopes
+  projects?: string[]
+  // Accounts with their own weekly caps and budgets
+  accounts?: Account[]
 }
 
 const fontSizeOptions: { value: FontSize; label: string }[] = [
@@ -24,6 +36,208 @@ const refreshRateOptions: { value: RefreshRate; label: string; minutes: number }
   { value: '1hour', label: '1 Hour', minutes: 60 },
 ]
 
+const WEEKLY_LIMITS_SETTING = 'weeklyLimits'
+const KEEP_DELETED_SESSIONS_SETTING = 'keepDeletedSessions'
+
+const weekdayOptions = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// Plans per provider; accounts of other providers have no weekly limits
+const weeklyPlans: Record<string, string[]> = {
+  claude: ['Pro', 'Max 5x', 'Max 20x', 'Team', 'Custom'],
+  codex: ['Plus', 'Pro', 'Business', 'Custom'],
+}
+
+const defaultWeeklyConfig: WeeklyLimitConfig = { resetWeekday: 1, resetHour: 0, caps: {} }
+
+const inputClassName = 'h-8 px-2 bg-black/20 border border-white/[0.06] rounded-md text-xs text-foreground focus:outline-none focus:border-blue-500/50'
+
+function WeeklyLimitsSettings({ accounts, onSaved }: { accounts: Account[]; onSaved?: () => void }) {
+  const [config, setConfig] = useState<WeeklyLimitConfig>(defaultWeeklyConfig)
+  const [dirty, setDirty] = useState(false)
+
+  useEffect(() => {
+    window.electronAPI?.getSetting(WEEKLY_LIMITS_SETTING, '').then(result => {
+      if (result?.success && result.value) {
+        try {
+          setConfig({ ...defaultWeeklyConfig, ...JSON.parse(result.value) })
+        } catch {
+          // Keep defaults for an unreadable setting
+        }
+      }
+    })
+  }, [])
+
+  const update = (next: WeeklyLimitConfig) => {
+    setConfig(next)
+    setDirty(true)
+  }
+
+  const updateCap = (account: string, patch: { plan?: string; unit?: WeeklyCapUnit; limit?: number }) => {
+    const current = config.caps[account] || { plan: 'Custom', unit: 'tokens' as WeeklyCapUnit, limit: 0 }
+    update({ ...config, caps: { ...config.caps, [account]: { ...current, ...patch } } })
+  }
+
+  const handleSave = async () => {
+    await window.electronAPI?.saveSetting(WEEKLY_LIMITS_SETTING, JSON.stringify(config))
+    setDirty(false)
+    onSaved?.()
+  }
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04]">
+      <div className="flex items-center gap-3 mb-3">
+        <div className="w-8 h-8 flex items-center justify-center bg-violet-500/10 rounded-lg">
+          <CalendarClock className="w-4 h-4 text-violet-400" />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Weekly Limits</h3>
+          <p className="text-xs text-muted-foreground">When your plan's week resets and how much it allows</p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mb-4 text-xs text-muted-foreground">
+        <span>Resets every</span>
+        <select
+          value={config.resetWeekday}
+          onChange={(e) => update({ ...config, resetWeekday: Number(e.target.value) })}
+          className={inputClassName}
+        >
+          {weekdayOptions.map((day, idx) => (
+            <option key={day} value={idx}>{day}</option>
+          ))}
+        </select>
+        <span>at</span>
+        <select
+          value={config.resetHour}
+          onChange={(e) => update({ ...config, resetHour: Number(e.target.value) })}
+          className={inputClassName}
+        >
+          {Array.from({ length: 24 }, (_, hour) => (
+            <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        {accounts.filter(account => weeklyPlans[account.provider]).map(({ id, name, provider }) => {
+          const cap = config.caps[id]
+          return (
+            <div key={id} className="grid grid-cols-[80px_1fr_100px_1fr] gap-2 items-center text-xs">
+              <span className="font-medium text-foreground truncate" title={name}>{name}</span>
+              <select
+                value={cap?.plan || ''}
+                onChange={(e) => updateCap(id, { plan: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="" disabled>Plan</option>
+                {weeklyPlans[provider].map(plan => (
+                  <option key={plan} value={plan}>{plan}</option>
+                ))}
+              </select>
+              <select
+                value={cap?.unit || 'tokens'}
+                onChange={(e) => updateCap(id, { unit: e.target.value as WeeklyCapUnit })}
+                className={inputClassName}
+              >
+                <option value="tokens">Tokens</option>
+                <option value="hours">Hours</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                placeholder="Weekly cap (0 = none)"
+                value={cap?.limit || ''}
+                onChange={(e) => updateCap(id, { limit: Math.max(0, Number(e.target.value)) })}
+                className={inputClassName}
+              />
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={handleSave}
+          disabled={!dirty}
+          className="px-3 py-1.5 text-xs font-medium rounded-md bg-violet-500/20 text-violet-400 hover:bg-violet-500/30 transition-all disabled:opacity-40"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function SessionHistorySettings({ onSaved }: { onSaved?: () => void }) {
+  const [keep, setKeep] = useState(true)
+  const [archivedCount, setArchivedCount] = useState(0)
+  const [saving, setSaving] = useState(false)
+
+  const loadStats = async () => {
+    const stats = await window.electronAPI?.getDbStats()
+    if (stats) setArchivedCount(stats.archivedCount)
+  }
+
+  useEffect(() => {
+    window.electronAPI?.getSetting(KEEP_DELETED_SESSIONS_SETTING, 'true').then(result => {
+      if (result?.success) setKeep(result.value !== 'false')
+    })
+    loadStats()
+  }, [])
+
+  const handleChange = async (value: boolean) => {
+    setKeep(value)
+    setSaving(true)
+    await window.electronAPI?.saveSetting(KEEP_DELETED_SESSIONS_SETTING, String(value))
+    // Saving purges archived sessions; reload usage without them
+    await window.electronAPI?.refreshData()
+    await loadStats()
+    setSaving(false)
+    onSaved?.()
+  }
+
+  return (
+    <div className="p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04]">
+      <div className="flex items-center gap-3 mb-3">
+        <div className="w-8 h-8 flex items-center justify-center bg-amber-500/10 rounded-lg">
+          <Archive className="w-4 h-4 text-amber-400" />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Deleted Sessions</h3>
+          <p className="text-xs text-muted-foreground">
+            Keep usage of sessions whose log files were removed ({archivedCount.toLocaleString()} archived)
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 p-1 bg-black/20 rounded-lg">
+        {[
+          { value: true, label: 'Keep as archived' },
+          { value: false, label: 'Purge' },
+        ].map(option => (
+          <button
+            key={option.label}
+            onClick={() => handleChange(option.value)}
+            disabled={saving || keep === option.value}
+            className={`flex-1 py-2 px-3 text-xs font-medium rounded-md transition-all disabled:cursor-default ${
+              keep === option.value
+                ? 'bg-amber-500/20 text-amber-400 shadow-sm'
+                : 'text-muted-foreground hover:text-foreground hover:bg-white/[0.04]'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {!keep && (
+        <p className="mt-2 text-[11px] text-muted-foreground">
+          Sessions are deleted from history as soon as their files disappear.
+        </p>
+      )}
+    </div>
+  )
+}
+
 function FontSizeSelector({ 
   label, 
   description,
@@ -72,8 +286,19 @@ export function SettingsPage({
   refreshRate,
   onNormalFontSizeChange, 
   onMiniFontSizeChange,
-  onRefreshRateChange
+  onRefreshRateChange,
+  onUsageSettingsChange,
+  projects = [],
+  accounts = []
 }: SettingsPageProps) {
+  // Bumped when session folders were saved, so Accounts lists the new ones
+  const [rootsVersion, setRootsVersion] = useState(0)
+
+  const handleRootsSaved = () => {
+    setRootsVersion(version => version + 1)
+    onUsageSettingsChange?.()
+  }
+
   const handleNormalFontSizeChange = async (size: FontSize) => {
     onNormalFontSizeChange(size)
     // Save to database
@@ -139,6 +364,44 @@ export function SettingsPage({
         </div>
       </div>
 
+      {/* Session History */}
+      <div className="space-y-4">
+        <h2 className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground/70 px-1">
+          Session History
+        </h2>
+
+        <SessionRootsSettings onSaved={handleRootsSaved} />
+        <SessionHistorySettings onSaved={onUsageSettingsChange} />
+      </div>
+
+      {/* Accounts */}
+      <div className="space-y-4">
+        <h2 className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground/70 px-1">
+          Accounts
+        </h2>
+
+        <AccountsSettings rootsVersion={rootsVersion} onSaved={onUsageSettingsChange} />
+      </div>
+
+      {/* Usage Limits */}
+      <div className="space-y-4">
+        <h2 className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground/70 px-1">
+          Usage Limits
+        </h2>
+
+        <WeeklyLimitsSettings accounts={accounts} onSaved={onUsageSettingsChange} />
+        <BudgetSettings projects={projects} accounts={accounts} onSaved={onUsageSettingsChange} />
+      </div>
+
+      {/* Pricing */}
+      <div className="space-y-4">
+        <h2 className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground/70 px-1">
+          Pricing
+        </h2>
+
+        <PricingSettings onSaved={onUsageSettingsChange} />
+      </div>
+
       {/* Font Size Settings */}
       <div className="space-y-4">
         <h2 className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground/70 px-1">
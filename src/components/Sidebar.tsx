@@ -1,8 +1,8 @@
-import { Activity, LayoutDashboard, Settings, FolderKanban } from 'lucide-react'
+import { Activity, LayoutDashboard, Settings, FolderKanban, History, Search } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import type { FontSize } from '@/components/SettingsPage'
 
-export type PageType = 'status' | 'dashboard' | 'projects' | 'settings'
+export type PageType = 'status' | 'dashboard' | 'projects' | 'sessions' | 'search' | 'settings'
 
 interface SidebarProps {
   currentPage: PageType
@@ -22,6 +22,8 @@ const navItems = [
   { id: 'status' as const, icon: Activity, label: 'Status' },
   { id: 'dashboard' as const, icon: LayoutDashboard, label: 'Dashboard' },
   { id: 'projects' as const, icon: FolderKanban, label: 'Projects' },
+  { id: 'sessions' as const, icon: History, label: 'Sessions' },
+  { id: 'search' as const, icon: Search, label: 'Search' },
   { id: 'settings' as const, icon: Settings, label: 'Settings' },
 ]
 
@@ -1,7 +1,10 @@
 import { ProviderCard } from '@/components/ProviderCard'
 import { SessionItem } from '@/components/SessionItem'
+import { RateLimitGauges } from '@/components/RateLimitGauges'
+import { BillingBlockCard } from '@/components/BillingBlockCard'
+import { WeeklyUsageCard } from '@/components/WeeklyUsageCard'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import type { ProviderData, Session } from '@/types/electron'
+import type { Account, BillingBlock, ProviderData, RateLimitSnapshot, Session, WeeklyUsage } from '@/types/electron'
 
 const providerNames: Record<string, string> = {
   claude: 'Claude Code',
@@ -11,9 +14,14 @@ const providerNames: Record<string, string> = {
 interface StatusPageProps {
   providers: Record<string, ProviderData>
   sessions: Session[]
+  rateLimits: RateLimitSnapshot | null
+  activeBlock: BillingBlock | null
+  weekly: Record<string, WeeklyUsage>
+  accounts: Account[]
+  onOpenSession?: (session: Session) => void
 }
 
-export function StatusPage({ providers, sessions }: StatusPageProps) {
+export function StatusPage({ providers, sessions, rateLimits, activeBlock, weekly, accounts, onOpenSession }: StatusPageProps) {
   return (
     <div className="p-5 h-full overflow-auto">
       {/* Providers */}
@@ -31,6 +39,9 @@ export function StatusPage({ providers, sessions }: StatusPageProps) {
             />
           ))}
         </div>
+        <BillingBlockCard block={activeBlock} className="mt-4" />
+        <RateLimitGauges rateLimits={rateLimits} className="mt-4" />
+        <WeeklyUsageCard weekly={weekly} accounts={accounts} className="mt-4" />
       </section>
 
       {/* Recent Sessions */}
@@ -46,7 +57,11 @@ export function StatusPage({ providers, sessions }: StatusPageProps) {
               </div>
             ) : (
               sessions.map((session, idx) => (
-                <SessionItem key={`${session.sessionId}-${idx}`} session={session} />
+                <SessionItem
+                  key={`${session.sessionId}-${idx}`}
+                  session={session}
+                  onClick={onOpenSession ? () => onOpenSession(session) : undefined}
+                />
               ))
             )}
           </div>
@@ -0,0 +1,147 @@
+import { useState, useEffect, useRef } from 'react'
+import { History, X } from 'lucide-react'
+import { formatDate } from '@/lib/utils'
+import type { SyncRun, SyncStatus } from '@/types/electron'
+
+interface SyncStatusPopoverProps {
+  status: SyncStatus | null
+  onCancel: () => void
+  // Font size class of the title bar buttons
+  buttonClassName: string
+}
+
+const providerNames: Record<string, string> = {
+  claude: 'Claude',
+  codex: 'Codex',
+  gemini: 'Gemini',
+}
+
+const outcomeColors: Record<SyncRun['outcome'], string> = {
+  completed: 'text-emerald-400',
+  cancelled: 'text-amber-400',
+  failed: 'text-red-400',
+}
+
+function describeState(status: SyncStatus): string {
+  const provider = status.provider ? providerNames[status.provider] || status.provider : ''
+  switch (status.state) {
+    case 'idle':
+      return 'Idle'
+    case 'scanning':
+      return `Scanning ${provider} files`
+    case 'parsing':
+      return `Parsing ${provider} sessions`
+    case 'writing':
+      return `Saving ${provider} sessions`
+  }
+}
+
+function formatDurationMs(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`
+}
+
+export function SyncStatusPopover({ status, onCancel, buttonClassName }: SyncStatusPopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [history, setHistory] = useState<SyncRun[]>([])
+  const containerRef = useRef<HTMLDivElement>(null)
+  const state = status?.state ?? 'idle'
+  const running = state !== 'idle'
+
+  // Reload the history when opened and whenever a job finishes
+  useEffect(() => {
+    if (!open || running) return
+    window.electronAPI?.getSyncHistory().then((result) => {
+      if (result.success && result.data) setHistory(result.data)
+    })
+  }, [open, running])
+
+  // Close on a click anywhere else
+  useEffect(() => {
+    if (!open) return
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [open])
+
+  const lastRun = history[0]
+  const indicator = running
+    ? 'bg-violet-400 animate-pulse'
+    : lastRun && lastRun.outcome !== 'completed'
+      ? lastRun.outcome === 'failed' ? 'bg-red-400' : 'bg-amber-400'
+      : null
+
+  return (
+    <div ref={containerRef} className="relative mr-1">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`relative flex items-center h-7 px-2.5 ${buttonClassName} font-medium text-muted-foreground hover:text-foreground bg-white/[0.04] hover:bg-white/[0.08] border border-white/[0.06] hover:border-white/[0.1] rounded-lg transition-all`}
+        title="Sync status"
+      >
+        <History className="w-3.5 h-3.5" />
+        {indicator && <span className={`absolute top-1 right-1 w-1.5 h-1.5 rounded-full ${indicator}`} />}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-9 w-80 z-50 p-3 space-y-3 bg-[#0f0f15] border border-white/[0.08] rounded-xl shadow-xl shadow-black/40 text-xs">
+          {/* Current job */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-foreground">{status ? describeState(status) : 'Idle'}</span>
+              {running && (
+                <button
+                  onClick={onCancel}
+                  disabled={status?.cancelRequested}
+                  className="flex items-center gap-1 h-6 px-2 text-muted-foreground hover:text-foreground bg-white/[0.04] hover:bg-white/[0.08] border border-white/[0.06] rounded-md transition-all disabled:opacity-50"
+                >
+                  <X className="w-3 h-3" />
+                  {status?.cancelRequested ? 'Cancelling...' : 'Cancel'}
+                </button>
+              )}
+            </div>
+            {running && status && Object.entries(status.progress).map(([provider, progress]) => {
+              if (!progress) return null
+              const percent = progress.total > 0 ? (progress.done / progress.total) * 100 : 100
+              return (
+                <div key={provider} className="space-y-1">
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>{providerNames[provider] || provider}</span>
+                    <span className="font-mono">{progress.done.toLocaleString()} / {progress.total.toLocaleString()} files</span>
+                  </div>
+                  <div className="h-1 bg-white/[0.06] rounded-full overflow-hidden">
+                    <div className="h-full rounded-full bg-violet-500" style={{ width: `${percent}%` }} />
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Recent runs */}
+          <div className="pt-2 border-t border-white/[0.06]">
+            <div className="mb-1.5 text-muted-foreground/70 uppercase tracking-wider text-[10px]">Recent syncs</div>
+            {history.length === 0 ? (
+              <div className="text-muted-foreground">No syncs recorded yet</div>
+            ) : (
+              <div className="max-h-56 overflow-y-auto space-y-1">
+                {history.map((run) => (
+                  <div key={run.id} className="flex items-center gap-2" title={run.error || undefined}>
+                    <span className={`w-16 capitalize ${outcomeColors[run.outcome]}`}>{run.outcome}</span>
+                    <span className="w-14 text-muted-foreground">{formatDate(run.startedAt)}</span>
+                    <span className="w-12 text-muted-foreground/70">{run.trigger === 'manual' ? 'Manual' : 'Auto'}</span>
+                    <span className="w-12 font-mono text-muted-foreground">{formatDurationMs(run.durationMs)}</span>
+                    <span className="flex-1 text-right font-mono text-muted-foreground">
+                      +{run.added} ~{run.updated} -{run.deleted}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,24 @@
-import { Minus, Square, X, Layers, RefreshCw, PanelLeftClose, PanelLeft, Minimize2 } from 'lucide-react'
+import { useState } from 'react'
+import { Minus, Square, X, Layers, RefreshCw, PanelLeftClose, PanelLeft, Minimize2, Search } from 'lucide-react'
 import type { FontSize } from '@/components/SettingsPage'
+import { SyncStatusPopover } from '@/components/SyncStatusPopover'
+import type { Account, SyncStatus } from '@/types/electron'
 
 interface TitleBarProps {
   onRefresh?: () => void
   refreshing?: boolean
+  // Background sync job, shown in a popover next to the refresh button
+  syncStatus?: SyncStatus | null
+  onCancelSync?: () => void
+  // Account filter applied to every page
+  accounts?: Account[]
+  account?: string | null
+  onAccountChange?: (account: string | null) => void
   sidebarCollapsed?: boolean
   onToggleSidebar?: () => void
   onToggleMini?: () => void
+  // Global full-text search, submitted with Enter
+  onSearch?: (text: string) => void
   platform?: 'linux' | 'win32' | 'darwin' | null
   fontSize?: FontSize
 }
@@ -18,6 +30,12 @@ const fontSizeClasses: Record<FontSize, { title: string; button: string }> = {
   large: { title: 'text-[18px]', button: 'text-sm' },
 }
 
+// Providers offered in the account filter (gemini is hidden throughout)
+const accountProviders: { key: string; label: string }[] = [
+  { key: 'claude', label: 'Claude' },
+  { key: 'codex', label: 'Codex' },
+]
+
 // Linux (Tux) logo
 function LinuxLogo() {
   return (
@@ -45,13 +63,16 @@ function MacLogo() {
   )
 }
 
-export function TitleBar({ onRefresh, refreshing, sidebarCollapsed, onToggleSidebar, onToggleMini, platform, fontSize = 'medium' }: TitleBarProps) {
+export function TitleBar({ onRefresh, refreshing, syncStatus, onCancelSync, accounts = [], account = null, onAccountChange, sidebarCollapsed, onToggleSidebar, onToggleMini, onSearch, platform, fontSize = 'medium' }: TitleBarProps) {
+  const [searchText, setSearchText] = useState('')
   const handleMinimize = () => window.electronAPI?.windowMinimize()
   const handleMaximize = () => window.electronAPI?.windowMaximize()
   const handleClose = () => window.electronAPI?.windowClose()
 
   const PlatformIcon = platform === 'linux' ? LinuxLogo : platform === 'win32' ? WindowsLogo : platform === 'darwin' ? MacLogo : null
   const fontClasses = fontSizeClasses[fontSize]
+  // Only worth a filter once a provider has more than its default account
+  const showAccounts = !!onAccountChange && (account !== null || accounts.some(entry => entry.id !== entry.provider && entry.provider !== 'gemini'))
 
   return (
     <div className="flex items-center justify-between h-12 px-4 bg-gradient-to-b from-[#0f0f15] to-[#0a0a0f] border-b border-white/[0.04] select-none">
@@ -97,6 +118,45 @@ export function TitleBar({ onRefresh, refreshing, sidebarCollapsed, onToggleSide
 
       {/* Right: Mini View + Refresh + Window Controls */}
       <div className="flex items-center gap-1 titlebar-no-drag">
+        {/* Account Filter */}
+        {showAccounts && (
+          <select
+            value={account || ''}
+            onChange={(e) => onAccountChange?.(e.target.value || null)}
+            className={`h-7 px-2 mr-2 ${fontClasses.button} bg-white/[0.04] border border-white/[0.06] rounded-lg text-foreground focus:outline-none focus:border-violet-500/50 transition-all`}
+            title="Account"
+          >
+            <option value="">All accounts</option>
+            {accountProviders.map(({ key, label }) => (
+              <optgroup key={key} label={label}>
+                {accounts.filter(entry => entry.provider === key).map(entry => (
+                  <option key={entry.id} value={entry.id}>{entry.name}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        )}
+
+        {/* Global Search */}
+        {onSearch && (
+          <div className="relative mr-2">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground/60" />
+            <input
+              type="text"
+              placeholder="Search sessions..."
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && searchText.trim()) {
+                  onSearch(searchText.trim())
+                  setSearchText('')
+                }
+              }}
+              className={`w-44 h-7 pl-7 pr-2 ${fontClasses.button} bg-white/[0.04] border border-white/[0.06] rounded-lg text-foreground placeholder:text-muted-foreground/60 focus:outline-none focus:border-violet-500/50 transition-all`}
+            />
+          </div>
+        )}
+
         {/* Mini View Button */}
         {onToggleMini && (
           <button
@@ -108,6 +168,11 @@ export function TitleBar({ onRefresh, refreshing, sidebarCollapsed, onToggleSide
           </button>
         )}
 
+        {/* Sync Status */}
+        {onCancelSync && (
+          <SyncStatusPopover status={syncStatus ?? null} onCancel={onCancelSync} buttonClassName={fontClasses.button} />
+        )}
+
         {/* Refresh Button */}
         {onRefresh && (
           <button
@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Search, ChevronDown, ChevronUp, Loader2, Wrench, User, Bot, CornerDownRight } from 'lucide-react'
+import { HighlightedText } from '@/components/HighlightedText'
+import type { TranscriptEntry } from '@/types/electron'
+
+interface TranscriptViewProps {
+  path: string
+  // Prefilled in-session search, e.g. when opened from a search result
+  initialSearch?: string
+}
+
+// Tool calls/results longer than this start collapsed
+const COLLAPSED_LINES = 12
+const COLLAPSED_CHARS = 1500
+
+const inputClassName = 'h-8 px-2 bg-[#0f0f18]/80 border border-white/[0.06] rounded-md text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-violet-500/50'
+
+function isLong(entry: TranscriptEntry): boolean {
+  return entry.text.length > COLLAPSED_CHARS || entry.text.split('\n').length > COLLAPSED_LINES
+}
+
+function collapsedText(text: string): string {
+  return text.split('\n').slice(0, COLLAPSED_LINES).join('\n').slice(0, COLLAPSED_CHARS)
+}
+
+function formatClock(dateStr: string | null): string {
+  if (!dateStr) return ''
+  return new Date(dateStr).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+export function TranscriptView({ path, initialSearch = '' }: TranscriptViewProps) {
+  const [entries, setEntries] = useState<TranscriptEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+  const [search, setSearch] = useState(initialSearch)
+  const [matchIndex, setMatchIndex] = useState(0)
+  const entryRefs = useRef(new Map<number, HTMLDivElement>())
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    window.electronAPI?.getTranscript(path).then(result => {
+      if (cancelled) return
+      if (result?.success && result.data) {
+        setEntries(result.data.entries)
+        setError(null)
+      } else {
+        setError(result?.error || 'Failed to load transcript')
+      }
+      setLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [path])
+
+  const query = search.trim()
+
+  // Indexes of the entries containing the search text
+  const matches = useMemo(() => {
+    if (!query) return []
+    const needle = query.toLowerCase()
+    return entries.flatMap((entry, idx) =>
+      entry.text.toLowerCase().includes(needle) || entry.toolName?.toLowerCase().includes(needle) ? [idx] : []
+    )
+  }, [entries, query])
+
+  const currentMatch = matches.length > 0 ? matches[Math.min(matchIndex, matches.length - 1)] : -1
+
+  useEffect(() => {
+    setMatchIndex(0)
+  }, [query])
+
+  useEffect(() => {
+    if (currentMatch >= 0) {
+      entryRefs.current.get(currentMatch)?.scrollIntoView({ block: 'center' })
+    }
+  }, [currentMatch])
+
+  const stepMatch = (delta: number) => {
+    if (matches.length === 0) return
+    setMatchIndex(current => (current + delta + matches.length) % matches.length)
+  }
+
+  const toggleExpanded = (idx: number) => {
+    setExpanded(current => {
+      const next = new Set(current)
+      if (next.has(idx)) next.delete(idx)
+      else next.add(idx)
+      return next
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Reading transcript...
+      </div>
+    )
+  }
+
+  if (error) {
+    return <div className="px-4 py-8 text-center text-sm text-red-400">{error}</div>
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 gap-3">
+      {/* Search */}
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <input
+            type="text"
+            placeholder="Search this session..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1)
+            }}
+            className={`${inputClassName} w-full pl-8`}
+          />
+        </div>
+        {query && (
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {matches.length === 0 ? 'No matches' : `${Math.min(matchIndex, matches.length - 1) + 1} / ${matches.length}`}
+          </span>
+        )}
+        <button
+          onClick={() => stepMatch(-1)}
+          disabled={matches.length === 0}
+          className="h-8 w-8 flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-white/[0.04] disabled:opacity-40 transition-all"
+          title="Previous match"
+        >
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => stepMatch(1)}
+          disabled={matches.length === 0}
+          className="h-8 w-8 flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-white/[0.04] disabled:opacity-40 transition-all"
+          title="Next match"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Entries */}
+      <div className="flex-1 min-h-0 overflow-auto space-y-2 pr-1">
+        {entries.length === 0 ? (
+          <div className="px-4 py-8 text-center text-sm text-muted-foreground">No messages in this session</div>
+        ) : (
+          entries.map((entry, idx) => (
+            <div
+              key={idx}
+              ref={(el) => {
+                if (el) entryRefs.current.set(idx, el)
+                else entryRefs.current.delete(idx)
+              }}
+            >
+              <TranscriptEntryCard
+                entry={entry}
+                query={query}
+                active={idx === currentMatch}
+                // The current search hit is always shown in full
+                expanded={!isLong(entry) || expanded.has(idx) || idx === currentMatch}
+                onToggle={isLong(entry) ? () => toggleExpanded(idx) : undefined}
+              />
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface TranscriptEntryCardProps {
+  entry: TranscriptEntry
+  query: string
+  active: boolean
+  expanded: boolean
+  onToggle?: () => void
+}
+
+const entryStyles: Record<TranscriptEntry['kind'], { label: string; icon: typeof User; className: string }> = {
+  user: { label: 'User', icon: User, className: 'bg-blue-500/[0.06] border-blue-500/20' },
+  assistant: { label: 'Assistant', icon: Bot, className: 'bg-[#0f0f18]/80 border-white/[0.04]' },
+  'tool-call': { label: 'Tool call', icon: Wrench, className: 'bg-violet-500/[0.05] border-violet-500/15' },
+  'tool-result': { label: 'Result', icon: CornerDownRight, className: 'bg-black/20 border-white/[0.04]' },
+}
+
+function TranscriptEntryCard({ entry, query, active, expanded, onToggle }: TranscriptEntryCardProps) {
+  const style = entryStyles[entry.kind]
+  const Icon = style.icon
+  const isTool = entry.kind === 'tool-call' || entry.kind === 'tool-result'
+  const lineCount = entry.text.split('\n').length
+
+  return (
+    <div
+      className={`p-3 rounded-lg border ${entry.isError ? 'bg-red-500/[0.06] border-red-500/20' : style.className} ${isTool ? 'ml-6' : ''} ${active ? 'ring-1 ring-amber-400/50' : ''}`}
+    >
+      <div className="flex items-center gap-2 mb-1.5 text-[10px] uppercase tracking-wider text-muted-foreground">
+        <Icon className="w-3 h-3" />
+        <span>{style.label}</span>
+        {entry.toolName && (
+          <span className="normal-case tracking-normal px-1.5 py-0.5 rounded bg-violet-500/15 text-violet-300">
+            <HighlightedText text={entry.toolName} query={query} />
+          </span>
+        )}
+        {entry.isError && <span className="text-red-400">error</span>}
+        <span className="ml-auto normal-case tracking-normal font-mono">{formatClock(entry.timestamp)}</span>
+      </div>
+      <div className={`whitespace-pre-wrap break-words ${isTool ? 'font-mono text-[11px] text-muted-foreground' : 'text-sm text-foreground'}`}>
+        <HighlightedText text={expanded ? entry.text : collapsedText(entry.text)} query={query} />
+        {entry.truncated && expanded && <span className="text-muted-foreground/60">{'\n'}… output truncated</span>}
+      </div>
+      {onToggle && (
+        <button onClick={onToggle} className="mt-1.5 text-[11px] text-violet-400 hover:text-violet-300 transition-colors">
+          {expanded ? 'Collapse' : `Show all ${lineCount.toLocaleString()} lines`}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+
+interface VirtualListProps<T> {
+  items: T[]
+  rowHeight: number
+  renderRow: (item: T, index: number) => ReactNode
+  getKey: (item: T, index: number) => string
+  // Rows rendered above and below the viewport
+  overscan?: number
+  // Called when the viewport gets within `endThreshold` rows of the last item
+  onEndReached?: () => void
+  endThreshold?: number
+  className?: string
+}
+
+/**
+ * Fixed-row-height list that only mounts the rows in view
+ */
+export function VirtualList<T>({
+  items,
+  rowHeight,
+  renderRow,
+  getKey,
+  overscan = 8,
+  onEndReached,
+  endThreshold = 20,
+  className = '',
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(0)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    setViewportHeight(container.clientHeight)
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const firstVisible = Math.floor(scrollTop / rowHeight)
+  const visibleCount = Math.ceil(viewportHeight / rowHeight)
+  const start = Math.max(0, firstVisible - overscan)
+  const end = Math.min(items.length, firstVisible + visibleCount + overscan)
+
+  useEffect(() => {
+    if (onEndReached && items.length > 0 && firstVisible + visibleCount >= items.length - endThreshold) {
+      onEndReached()
+    }
+  }, [firstVisible, visibleCount, items.length, endThreshold, onEndReached])
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className={`overflow-auto ${className}`}
+    >
+      <div className="relative" style={{ height: items.length * rowHeight }}>
+        {items.slice(start, end).map((item, offset) => {
+          const index = start + offset
+          return (
+            <div
+              key={getKey(item, index)}
+              className="absolute left-0 right-0"
+              style={{ top: index * rowHeight, height: rowHeight }}
+            >
+              {renderRow(item, index)}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
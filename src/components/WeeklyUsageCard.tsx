@@ -0,0 +1,95 @@
+import { CalendarClock } from 'lucide-react'
+import { formatNumber } from '@/lib/utils'
+import type { Account, WeeklyUsage } from '@/types/electron'
+
+interface WeeklyUsageCardProps {
+  // Keyed by account id
+  weekly: Record<string, WeeklyUsage>
+  accounts: Account[]
+  className?: string
+}
+
+const providerNames: Record<string, string> = {
+  claude: 'Claude',
+  codex: 'Codex',
+}
+
+const providerBarColors: Record<string, string> = {
+  claude: 'bg-orange-400',
+  codex: 'bg-emerald-400',
+}
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  })
+}
+
+function formatUsed(usage: WeeklyUsage): string {
+  if (usage.cap?.unit === 'hours') {
+    return `${usage.activeHours.toFixed(1)}h / ${usage.cap.limit}h`
+  }
+  if (usage.cap) {
+    return `${formatNumber(usage.tokens)} / ${formatNumber(usage.cap.limit)}`
+  }
+  return `${formatNumber(usage.tokens)} tokens · ${usage.activeHours.toFixed(1)}h`
+}
+
+export function WeeklyUsageCard({ weekly, accounts, className = '' }: WeeklyUsageCardProps) {
+  const entries = accounts
+    .filter(account => weekly[account.id] && providerNames[account.provider])
+    .map(account => [account, weekly[account.id]] as const)
+  if (entries.length === 0) return null
+
+  const weekEnd = entries[0][1].weekEnd
+
+  return (
+    <div className={`p-4 bg-gradient-to-br from-[#0f0f18]/80 to-[#0a0a12]/80 rounded-xl border border-white/[0.04] ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-4 h-4 text-violet-400" />
+          <h3 className="text-sm font-semibold text-foreground">This Week</h3>
+        </div>
+        <span className="text-[10px] text-muted-foreground">Resets {formatDateTime(weekEnd)}</span>
+      </div>
+
+      <div className="space-y-3">
+        {entries.map(([account, usage]) => {
+          const percent = usage.percentUsed === null ? null : Math.min(100, usage.percentUsed)
+          return (
+            <div key={account.id} className="space-y-1.5">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-foreground font-medium">
+                  {account.name}
+                  {usage.cap && <span className="ml-1.5 text-muted-foreground font-normal">{usage.cap.plan}</span>}
+                </span>
+                <span className="font-mono text-muted-foreground">
+                  {formatUsed(usage)}
+                  {percent !== null && <span className="ml-2 font-semibold text-foreground">{percent.toFixed(0)}%</span>}
+                </span>
+              </div>
+              {percent !== null && (
+                <div className="h-1.5 bg-white/[0.06] rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${percent >= 90 ? 'bg-red-500' : providerBarColors[account.provider]}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              )}
+              <div className="text-[10px] text-muted-foreground">
+                {!usage.cap
+                  ? 'No weekly cap configured'
+                  : usage.projectedExhaustion
+                    ? `At this pace the cap runs out ${formatDateTime(usage.projectedExhaustion)}`
+                    : 'On pace to stay within the cap this week'}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
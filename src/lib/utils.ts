@@ -20,6 +20,11 @@ export function formatCurrency(amount: number): string {
   return '$' + amount.toFixed(2)
 }
 
+// Strip vendor prefix and date suffix, e.g. claude-sonnet-4-20250514 -> sonnet-4
+export function shortModelName(model: string): string {
+  return model.replace(/^claude-/, '').replace(/-\d{8}$/, '')
+}
+
 export function formatDate(dateStr: string | null): string {
   if (!dateStr) return 'N/A'
   try {
@@ -38,3 +43,8 @@ export function formatDate(dateStr: string | null): string {
   }
 }
 
+// Start of a local date as an ISO timestamp, optionally shifted by whole days
+export function localDayToIso(day: string, addDays = 0): string {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date + addDays).toISOString()
+}
@@ -1,11 +1,41 @@
 export interface DbStats {
   sessionCount: number
   fileCount: number
+  // Sessions kept after their source file was deleted
+  archivedCount: number
   dbSize: number
 }
 
+// Files checked so far per provider; a provider is absent until its files are listed
+export type SyncProgress = Record<string, { done: number; total: number } | undefined>
+
+export type SyncState = 'idle' | 'scanning' | 'parsing' | 'writing'
+export type SyncTrigger = 'manual' | 'auto'
+
+export interface SyncStatus {
+  state: SyncState
+  trigger: SyncTrigger | null
+  provider: string | null
+  startedAt: string | null
+  progress: SyncProgress
+  cancelRequested: boolean
+}
+
+export interface SyncRun {
+  id: number
+  trigger: SyncTrigger
+  startedAt: string
+  durationMs: number
+  outcome: 'completed' | 'cancelled' | 'failed'
+  added: number
+  updated: number
+  deleted: number
+  error: string | null
+}
+
 export interface ElectronAPI {
-  getAllUsage: () => Promise<{
+  // Aggregates of one account, or all of them for null
+  getAllUsage: (account?: string | null) => Promise<{
     success: boolean
     data?: UsageData
     error?: string
@@ -15,11 +45,47 @@ export interface ElectronAPI {
     data?: Session[]
     error?: string
   }>
-  refreshData: () => Promise<{
+  refreshData: (account?: string | null) => Promise<{
     success: boolean
     data?: UsageData
     error?: string
   }>
+  querySessions: (query: SessionQuery) => Promise<{
+    success: boolean
+    data?: SessionPage
+    error?: string
+  }>
+  getSessionDetail: (path: string) => Promise<{
+    success: boolean
+    data?: SessionDetail
+    error?: string
+  }>
+  getTranscript: (path: string) => Promise<{
+    success: boolean
+    data?: Transcript
+    error?: string
+  }>
+  searchMessages: (query: MessageSearchQuery) => Promise<{
+    success: boolean
+    data?: MessageSearchPage
+    error?: string
+  }>
+  // A list of queries gets a list of results, in the same order
+  getTimeseries: <Q extends TimeseriesQuery | TimeseriesQuery[]>(query: Q) => Promise<{
+    success: boolean
+    data?: Q extends TimeseriesQuery[] ? TimeseriesResult[] : TimeseriesResult
+    error?: string
+  }>
+  // Pushed after watched session files changed; returns an unsubscribe function
+  onUsageUpdated: (callback: (data: UsageData) => void) => () => void
+  // Runs in the background; results arrive through onUsageUpdated
+  startSync: () => Promise<{ success: boolean; error?: string }>
+  // False if no sync was running
+  cancelSync: () => Promise<boolean>
+  getSyncStatus: () => Promise<SyncStatus>
+  getSyncHistory: () => Promise<{ success: boolean; data?: SyncRun[]; error?: string }>
+  // Returns an unsubscribe function
+  onSyncStatus: (callback: (status: SyncStatus) => void) => () => void
   windowMinimize: () => void
   windowMaximize: () => void
   windowClose: () => void
@@ -29,6 +95,18 @@ export interface ElectronAPI {
   getDbStats: () => Promise<DbStats>
   saveSetting: (key: string, value: string) => Promise<{ success: boolean; error?: string }>
   getSetting: (key: string, defaultValue?: string) => Promise<{ success: boolean; value: string; error?: string }>
+  getBudgets: () => Promise<{ success: boolean; data?: BudgetStatus[]; error?: string }>
+  saveBudget: (budget: Budget) => Promise<{ success: boolean; data?: number; error?: string }>
+  deleteBudget: (id: number) => Promise<{ success: boolean; error?: string }>
+  getBudgetAlerts: () => Promise<{ success: boolean; data?: BudgetAlert[]; error?: string }>
+  getSessionRoots: () => Promise<{ success: boolean; data?: SessionRootInfo[]; error?: string }>
+  inspectSessionRoot: (provider: string, path: string) => Promise<{ success: boolean; data?: SessionRootInfo; error?: string }>
+  saveSessionRoots: (config: SessionRootConfig) => Promise<{ success: boolean; data?: SessionRootInfo[]; error?: string }>
+  getAccounts: () => Promise<{ success: boolean; data?: AccountConfig; error?: string }>
+  // Accounts with an empty id are created
+  saveAccounts: (config: AccountConfig) => Promise<{ success: boolean; data?: AccountConfig; error?: string }>
+  getPricing: () => Promise<{ success: boolean; data?: PricingCatalog; error?: string }>
+  savePricingOverrides: (overrides: PricingTable) => Promise<{ success: boolean; data?: PricingCatalog; error?: string }>
 }
 
 export interface ProviderData {
@@ -40,15 +118,148 @@ export interface ProviderData {
   costUsd: number
 }
 
+export interface ModelUsage {
+  turns: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  costUsd: number
+}
+
+export interface ModelStats {
+  sessions: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
 export interface Session {
+  path: string
   sessionId: string
   provider: string
+  account?: string
   project?: string
   messages: number
+  toolUses?: number
   inputTokens: number
   outputTokens: number
+  costUsd: number
+  cacheReadTokens?: number
+  cacheCreationTokens?: number
+  cachedInputTokens?: number
+  reasoningOutputTokens?: number
+  duplicateEvents?: number
+  firstMessage: string | null
   lastMessage: string | null
+  duration: number
+  model?: string | null
+  models?: Record<string, ModelUsage>
+  // Source file was deleted; totals are kept from the last parse
+  archived?: boolean
+}
+
+export interface ToolCall {
+  name: string
+  summary: string
+}
+
+export interface SessionTurn {
+  index: number
+  timestamp: string | null
+  model: string | null
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  cachedInputTokens: number
+  reasoningOutputTokens: number
+  contextTokens: number
+  costUsd: number
+  cumulativeCostUsd: number
+  toolCalls: ToolCall[]
+}
+
+export interface SessionDetail {
+  session: Session
+  turns: SessionTurn[]
+}
+
+export interface MessageSearchQuery {
+  text: string
+  provider?: string
+  account?: string
+  project?: string
+  start?: string
+  end?: string
+  offset: number
+  limit: number
+}
+
+export interface MessageSearchResult {
+  id: number
+  session: Session
+  role: 'user' | 'assistant'
+  timestamp: string | null
+  // Matched terms are wrapped in \u0002 ... \u0003
+  snippet: string
+}
+
+export interface MessageSearchPage {
+  results: MessageSearchResult[]
+  total: number
+  offset: number
+  limit: number
+}
+
+export type TranscriptEntryKind = 'user' | 'assistant' | 'tool-call' | 'tool-result'
+
+export interface TranscriptEntry {
+  kind: TranscriptEntryKind
+  timestamp: string | null
+  text: string
+  toolName?: string
+  isError?: boolean
+  truncated?: boolean
+}
+
+export interface Transcript {
+  path: string
+  provider: string
+  entries: TranscriptEntry[]
+}
+
+export type SessionSortKey =
+  | 'lastMessage'
+  | 'firstMessage'
+  | 'provider'
+  | 'project'
+  | 'model'
+  | 'messages'
+  | 'tokens'
+  | 'cost'
+  | 'duration'
+
+export interface SessionQuery {
+  provider?: string
+  account?: string
+  project?: string
   model?: string
+  start?: string
+  end?: string
+  minCost?: number
+  search?: string
+  sortBy: SessionSortKey
+  sortOrder: 'asc' | 'desc'
+  offset: number
+  limit: number
+}
+
+export interface SessionPage {
+  sessions: Session[]
+  total: number
+  offset: number
+  limit: number
 }
 
 export interface ProjectStats {
@@ -61,6 +272,187 @@ export interface ProjectStats {
   lastActivity: string | null
 }
 
+export interface UsageTotals {
+  sessions: number
+  inputTokens: number
+  outputTokens: number
+  reasoningOutputTokens: number
+  costUsd: number
+}
+
+export interface DateStats extends UsageTotals {
+  providers: Record<string, UsageTotals | undefined>
+}
+
+export interface RateLimitWindow {
+  usedPercent: number
+  windowMinutes: number
+  resetsAt: string | null
+}
+
+export interface RateLimitSnapshot {
+  timestamp: string
+  primary: RateLimitWindow | null
+  secondary: RateLimitWindow | null
+}
+
+export interface BillingBlock {
+  startTime: string
+  endTime: string
+  lastActivity: string
+  isActive: boolean
+  turns: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  totalTokens: number
+  costUsd: number
+  models: string[]
+  burnRate: { tokensPerMinute: number; costPerHour: number } | null
+  remainingMs: number
+  projected: { totalTokens: number; costUsd: number } | null
+}
+
+export type WeeklyCapUnit = 'tokens' | 'hours'
+
+export interface WeeklyCap {
+  plan: string
+  unit: WeeklyCapUnit
+  limit: number
+}
+
+export interface WeeklyLimitConfig {
+  resetWeekday: number
+  resetHour: number
+  // Keyed by account id
+  caps: Record<string, WeeklyCap | undefined>
+}
+
+export interface WeeklyUsage {
+  weekStart: string
+  weekEnd: string
+  tokens: number
+  activeHours: number
+  cap: WeeklyCap | null
+  percentUsed: number | null
+  projectedExhaustion: string | null
+}
+
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly'
+export type BudgetScope = 'global' | 'provider' | 'project' | 'account'
+
+export interface Budget {
+  // 0 when creating a new budget
+  id: number
+  period: BudgetPeriod
+  scope: BudgetScope
+  scopeValue: string | null
+  amountUsd: number
+}
+
+export interface BudgetStatus {
+  budget: Budget
+  periodStart: string
+  periodEnd: string
+  spentUsd: number
+  percentUsed: number
+}
+
+export interface BudgetAlert {
+  budgetId: number
+  periodStart: string
+  threshold: number
+  spentUsd: number
+  firedAt: string
+}
+
+export interface SessionRootInfo {
+  provider: string
+  path: string
+  // Environment variable or 'default' for detected roots; null for roots added in Settings
+  detectedFrom: string | null
+  // Why the folder can't be read; null when it can
+  error: string | null
+  sessionFiles: number
+}
+
+// Roots added in Settings, per provider
+export type SessionRootConfig = Record<string, string[]>
+
+// 'subscription' usage is covered by a flat plan and only counts toward the account's own budgets
+export type PricingMode = 'api' | 'subscription'
+
+export interface Account {
+  // A provider's default account has the provider's id; empty for one not created yet
+  id: string
+  provider: string
+  name: string
+  pricingMode: PricingMode
+}
+
+export interface AccountConfig {
+  accounts: Account[]
+  // Root path -> account id; roots not listed belong to their provider's default account
+  rootAccounts: Record<string, string>
+}
+
+export interface PriceEntry {
+  // YYYY-MM-DD
+  effectiveFrom: string
+  input: number
+  output: number
+  cacheRead: number
+  cacheWrite5m: number
+  cacheWrite1h: number
+}
+
+export interface PricingTable {
+  models: Record<string, PriceEntry[]>
+  aliases: Record<string, string>
+}
+
+export interface PricingCatalog extends PricingTable {
+  version: string
+  overrides: PricingTable
+}
+
+export type TimeseriesBucket = 'minute' | 'hour' | 'day' | 'week' | 'month'
+export type TimeseriesGroupBy = 'provider' | 'model' | 'project'
+export type TimeseriesMetric =
+  | 'tokens'
+  | 'inputTokens'
+  | 'outputTokens'
+  | 'reasoningTokens'
+  | 'cacheReadTokens'
+  | 'cost'
+  | 'turns'
+  | 'sessions'
+
+export interface TimeseriesQuery {
+  // ISO timestamps, end exclusive
+  start: string
+  end: string
+  bucket: TimeseriesBucket
+  groupBy: TimeseriesGroupBy
+  metric: TimeseriesMetric
+  // Local time minus UTC, in minutes
+  tzOffsetMinutes?: number
+  account?: string
+}
+
+export interface TimeseriesPoint {
+  time: string
+  values: Record<string, number>
+  total: number
+}
+
+export interface TimeseriesResult {
+  bucket: TimeseriesBucket
+  groups: string[]
+  points: TimeseriesPoint[]
+}
+
 export interface UsageData {
   totals: {
     sessions: number
@@ -71,9 +463,22 @@ export interface UsageData {
   }
   providers: Record<string, ProviderData>
   recentSessions: Session[]
-  byModel: Record<string, unknown>
-  byDate: Record<string, unknown>
+  byModel: Record<string, ModelStats>
+  byDate: Record<string, DateStats>
+  // Trailing windows keyed by length in hours ('4', '5', '24')
+  byWindow: Record<string, DateStats>
+  // Last 14 days
+  recentTotals: DateStats
   byProject: Record<string, ProjectStats>
+  rateLimits: RateLimitSnapshot | null
+  activeBlock: BillingBlock | null
+  // Keyed by account id
+  weekly: Record<string, WeeklyUsage>
+  budgets: BudgetStatus[]
+  // Every account, whichever one the aggregates are for
+  accounts: Account[]
+  // Account the aggregates are limited to; null for all
+  account: string | null
 }
 
 declare global {